@@ -1,8 +1,13 @@
 // ─── Root Layout ──────────────────────────────────────────────────────────────
 // Entry point for the WAKE app. Responsible for:
-// 1. Detecting if the app was launched by an AlarmKit alarm (via UserDefaults handoff)
-// 2. Initializing the sound manager for alarm playback
-// 3. Configuring the expo-router navigation stack with dark theme
+// 1. Detecting if the app was launched by an alarm (AlarmKit's UserDefaults
+//    handoff, or a notification), or resuming a firing session interrupted
+//    by the app being killed
+// 2. Reconciling native alarms with the persisted store on startup and
+//    foreground (ending a vacation pause whose last day has passed first),
+//    and opening the restore screen if the stored data couldn't be read
+// 3. Initializing the sound manager for alarm playback
+// 4. Configuring the expo-router navigation stack with dark theme
 
 import { useEffect } from 'react';
 import { AppState } from 'react-native';
@@ -10,38 +15,29 @@ import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { Colors } from '../lib/constants';
 import { soundManager } from '../lib/sound-manager';
-import { useAlarmStore } from '../lib/alarm-store';
-import { initializeScheduler } from '../lib/alarm-scheduler';
-import { getLaunchAlarmId } from '../modules/alarm-kit';
+import {
+  disarmPassedAlarms,
+  resumeIfPauseEnded,
+  useAlarmStore,
+  waitForHydration,
+} from '../lib/alarm-store';
+import { isSessionActive } from '../lib/firing-session';
+import { getCorruptState } from '../lib/store-backups';
+import { initializeScheduler, reconcileScheduledAlarms } from '../lib/alarm-scheduler';
+import { checkAlarmLaunch, resumeFiringSession } from '../lib/alarm-launch';
+import { getAlarmBackend } from '../lib/alarm-backend';
 
-/**
- * Check if the app was launched by an AlarmKit alarm (user tapped "Open WAKE").
- * If so, set the active alarm and navigate to the firing screen.
- */
-function checkAlarmLaunch(router: ReturnType<typeof useRouter>) {
-  const store = useAlarmStore.getState();
-
-  // Guard: don't navigate again if we're already handling an alarm
-  if (store.isRinging || store.activeAlarmId) return;
-
-  const alarmId = getLaunchAlarmId();
-  if (alarmId) {
-    // Find the matching alarm in the store by its UUID or iterate
-    // The StopAlarmIntent writes the UUID; we need to match it back.
-    // For now, set the first armed alarm as active (the UUID mapping is in-memory).
-    // Try to find alarm directly (alarmId might be the alarm's own id)
-    const alarm = store.alarms.find((a) => a.isArmed);
-    if (alarm) {
-      store.setActiveAlarmId(alarm.id);
-    }
-    router.push('/alarm-firing');
-  }
+/** Full reconcile pass, run without waiting; a backend failure is only logged */
+function reconcileNativeAlarms() {
+  reconcileScheduledAlarms().catch((e) => {
+    console.warn('[Layout] Failed to reconcile native alarms:', e);
+  });
 }
 
 /**
  * Root layout for the WAKE app.
  * Uses expo-router Stack with a dark theme and hidden headers.
- * Initializes sound manager and AlarmKit launch handling.
+ * Initializes sound manager and alarm launch handling.
  */
 export default function RootLayout() {
   const router = useRouter();
@@ -50,19 +46,43 @@ export default function RootLayout() {
     // Initialize sound manager for alarm playback
     soundManager.initialize();
 
-    // Restore persisted retrigger UUIDs before checking alarm launch
-    initializeScheduler().then(() => {
-      checkAlarmLaunch(router);
-    });
+    // Restore native alarm records and stored alarms before checking alarm
+    // launch, then sync native alarms with the store
+    Promise.all([initializeScheduler(), waitForHydration()])
+      .then(() => {
+        if (resumeFiringSession()) router.push('/alarm-firing');
+        if (checkAlarmLaunch()) router.push('/alarm-firing');
+        resumeIfPauseEnded();
+        disarmPassedAlarms();
+        reconcileNativeAlarms();
+        const { session } = useAlarmStore.getState();
+
+        // Ringing alarms come first; otherwise offer backups for unreadable data
+        if (getCorruptState() && !isSessionActive(session)) {
+          router.push('/restore');
+        }
+      })
+      .catch((e) => console.warn('[Layout] Startup failed:', e));
 
     // Also check when app comes to foreground (in case it was backgrounded)
     const subscription = AppState.addEventListener('change', (state) => {
       if (state === 'active') {
-        checkAlarmLaunch(router);
+        if (checkAlarmLaunch()) router.push('/alarm-firing');
+        resumeIfPauseEnded();
+        disarmPassedAlarms();
+        reconcileNativeAlarms();
       }
     });
 
-    return () => subscription.remove();
+    // Notification alarms can arrive while the app is already open
+    const removeLaunchListener = getAlarmBackend().addLaunchListener?.(() => {
+      if (checkAlarmLaunch()) router.push('/alarm-firing');
+    });
+
+    return () => {
+      subscription.remove();
+      removeLaunchListener?.();
+    };
   }, [router]);
 
   return (
@@ -89,6 +109,30 @@ export default function RootLayout() {
             animation: 'fade',
           }}
         />
+        <Stack.Screen
+          name="stats"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="restore"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="transfer"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="vacation"
+          options={{
+            animation: 'slide_from_bottom',
+          }}
+        />
         <Stack.Screen
           name="victory"
           options={{
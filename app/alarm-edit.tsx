@@ -1,17 +1,54 @@
 // ─── Alarm Edit Screen ────────────────────────────────────────────────────────
 // Create or edit an alarm. Uses local component state for in-progress edits,
-// only committing to the Zustand store on save. Supports time, repeat days,
-// and sound selection.
+// only committing to the Zustand store on save. Supports time, label, repeat
+// days, a rotation or a one-time date, skipped dates, sound selection,
+// challenge settings, the re-trigger policy and a note.
 
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAlarmStore } from '../lib/alarm-store';
 import { TimeScroller } from '../components/TimeScroller';
 import { DaySelector } from '../components/DaySelector';
 import { SoundSelector } from '../components/SoundSelector';
-import type { SoundKey } from '../lib/types';
+import { OnceSelector } from '../components/OnceSelector';
+import { ChallengeSelector } from '../components/ChallengeSelector';
+import { RetriggerSelector } from '../components/RetriggerSelector';
+import { SkipSelector } from '../components/SkipSelector';
+import { RotationSelector } from '../components/RotationSelector';
+import type { OnceMode } from '../components/OnceSelector';
+import {
+  addDays,
+  getCivilDate,
+  getDeviceTimeZone,
+  getUpcomingSkipDates,
+  parseISODate,
+  toISODate,
+  zonedTimeToInstant,
+} from '../lib/recurrence';
+import type { CivilDate } from '../lib/recurrence';
+import {
+  ALARM_TEXT_LIMITS,
+  DEFAULT_ALARM_TITLE,
+  DEFAULT_CHALLENGE_CONFIG,
+  DEFAULT_RETRIGGER_POLICY,
+} from '../lib/constants';
+import type {
+  Alarm,
+  ChallengeConfig,
+  RetriggerPolicy,
+  RotationRecurrence,
+  SoundKey,
+} from '../lib/types';
 
 // ─── Default values for new alarm ───────────────────────────────────
 
@@ -19,6 +56,7 @@ const DEFAULT_HOUR = 7;
 const DEFAULT_MINUTE = 0;
 const DEFAULT_DAYS = [true, true, true, true, true, false, false];
 const DEFAULT_SOUND: SoundKey = 'SIREN';
+const NO_DAYS = [false, false, false, false, false, false, false];
 
 // ─── Component ──────────────────────────────────────────────────────
 
@@ -43,13 +81,48 @@ export default function AlarmEditScreen() {
   const [soundChoice, setSoundChoice] = useState<SoundKey>(
     existingAlarm?.soundChoice ?? DEFAULT_SOUND,
   );
+  const [challenge, setChallenge] = useState<ChallengeConfig>(
+    existingAlarm?.challenge ?? { ...DEFAULT_CHALLENGE_CONFIG },
+  );
+  const [retrigger, setRetrigger] = useState<RetriggerPolicy>(
+    existingAlarm?.retrigger ?? { ...DEFAULT_RETRIGGER_POLICY },
+  );
+  const [label, setLabel] = useState(existingAlarm?.label ?? '');
+  const [note, setNote] = useState(existingAlarm?.note ?? '');
+  const [skipDates, setSkipDates] = useState<string[]>(existingAlarm?.skipDates ?? []);
+  // Rotation the alarm repeats on instead of its weekly days, if any
+  const [rotation, setRotation] = useState<RotationRecurrence | null>(
+    existingAlarm?.date ? null : (existingAlarm?.rotation ?? null),
+  );
+
+  // One-time alarm state — onceMode is null while the alarm repeats weekly
+  const today = getCivilDate(Date.now());
+  const existingDate = existingAlarm?.date ? parseISODate(existingAlarm.date) : null;
+  const [onceMode, setOnceMode] = useState<OnceMode | null>(existingDate ? 'date' : null);
+  const [onceDate, setOnceDate] = useState<CivilDate>(existingDate ?? addDays(today, 1));
+
+  // The alarm as edited so far, for the skip selector's date math
+  const draft: Alarm = {
+    id: params.id ?? '',
+    time: { hour, minute },
+    enabledDays,
+    rotation: rotation ?? undefined,
+    skipDates,
+    soundChoice,
+    challenge,
+    retrigger,
+    isArmed: true,
+  };
+  const repeatsOnSomeDay = (rotation?.pattern ?? enabledDays).some(Boolean);
 
   const handleTimeChange = (h: number, m: number) => {
     setHour(h);
     setMinute(m);
   };
 
+  // Picking a weekday switches back to a weekly alarm
   const handleToggleDay = (index: number) => {
+    setOnceMode(null);
     setEnabledDays((prev) => {
       const next = [...prev];
       next[index] = !next[index];
@@ -57,18 +130,74 @@ export default function AlarmEditScreen() {
     });
   };
 
+  // Picking a one-time option clears the weekly days and any rotation
+  const handleSelectOnceMode = (mode: OnceMode) => {
+    setOnceMode(mode);
+    setEnabledDays([...NO_DAYS]);
+    setRotation(null);
+  };
+
+  // Picking a rotation makes the alarm repeat again
+  const handleChangeRotation = (next: RotationRecurrence | null) => {
+    if (next) setOnceMode(null);
+    setRotation(next);
+  };
+
+  // Turn the selected one-time option into a concrete "YYYY-MM-DD" date.
+  // ONCE means the next time the clock reaches hour:minute
+  const resolveOnceDate = (mode: OnceMode): CivilDate => {
+    switch (mode) {
+      case 'once': {
+        const todayAt = zonedTimeToInstant(today, hour, minute, getDeviceTimeZone());
+        return todayAt > Date.now() ? today : addDays(today, 1);
+      }
+      case 'tomorrow':
+        return addDays(today, 1);
+      case 'date':
+        return onceDate;
+    }
+  };
+
   const handleSave = () => {
+    const date = onceMode ? resolveOnceDate(onceMode) : undefined;
+    if (date && zonedTimeToInstant(date, hour, minute, getDeviceTimeZone()) <= Date.now()) {
+      Alert.alert('Time has passed', 'Pick a later time or date for this alarm.');
+      return;
+    }
+    const dateString = date ? toISODate(date) : undefined;
+    // Blank text clears the field
+    const labelText = label.trim() || undefined;
+    const noteText = note.trim() || undefined;
+    const rotationValue = !date && rotation ? rotation : undefined;
+    // Past skip dates are dropped; one-time alarms have none
+    const upcomingSkips = date ? [] : getUpcomingSkipDates(draft, { from: Date.now() });
+    const skipDateList = upcomingSkips.length > 0 ? upcomingSkips : undefined;
+
     if (isEditMode && params.id) {
       updateAlarm(params.id, {
         time: { hour, minute },
         enabledDays,
+        date: dateString,
+        rotation: rotationValue,
+        skipDates: skipDateList,
         soundChoice,
+        challenge,
+        retrigger,
+        label: labelText,
+        note: noteText,
       });
     } else {
       addAlarm({
         time: { hour, minute },
         enabledDays,
+        date: dateString,
+        rotation: rotationValue,
+        skipDates: skipDateList,
         soundChoice,
+        challenge,
+        retrigger,
+        label: labelText,
+        note: noteText,
         isArmed: true,
       });
     }
@@ -84,7 +213,7 @@ export default function AlarmEditScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
         {/* Navigation bar */}
         <View style={styles.navBar}>
           <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7}>
@@ -107,18 +236,81 @@ export default function AlarmEditScreen() {
           />
         </View>
 
+        {/* Label */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>LABEL</Text>
+          <TextInput
+            style={styles.labelInput}
+            value={label}
+            onChangeText={setLabel}
+            placeholder={DEFAULT_ALARM_TITLE}
+            placeholderTextColor="#3A3A42"
+            maxLength={ALARM_TEXT_LIMITS.maxLabelLength}
+            returnKeyType="done"
+          />
+        </View>
+
         {/* Day Selector */}
         <View style={styles.section}>
           <Text style={styles.sectionLabel}>REPEAT</Text>
-          <DaySelector enabledDays={enabledDays} onToggle={handleToggleDay} />
+          {rotation === null && (
+            <DaySelector enabledDays={enabledDays} onToggle={handleToggleDay} />
+          )}
+          <OnceSelector
+            mode={onceMode}
+            date={onceDate}
+            minDate={today}
+            onSelectMode={handleSelectOnceMode}
+            onChangeDate={setOnceDate}
+          />
+          <RotationSelector
+            rotation={rotation}
+            enabledDays={enabledDays}
+            minDate={today}
+            onChange={handleChangeRotation}
+          />
         </View>
 
+        {/* Skip dates (repeating alarms only) */}
+        {onceMode === null && repeatsOnSomeDay && (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>SKIP</Text>
+            <SkipSelector alarm={draft} onChange={setSkipDates} />
+          </View>
+        )}
+
         {/* Sound Selector */}
         <View style={styles.section}>
           <Text style={styles.sectionLabel}>SOUND</Text>
           <SoundSelector selected={soundChoice} onSelect={setSoundChoice} />
         </View>
 
+        {/* Challenge Selector */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>CHALLENGE</Text>
+          <ChallengeSelector config={challenge} onChange={setChallenge} />
+        </View>
+
+        {/* Re-trigger Selector */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>RE-TRIGGER</Text>
+          <RetriggerSelector policy={retrigger} onChange={setRetrigger} />
+        </View>
+
+        {/* Note */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>NOTE</Text>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Why are you getting up?"
+            placeholderTextColor="#3A3A42"
+            maxLength={ALARM_TEXT_LIMITS.maxNoteLength}
+            multiline
+          />
+        </View>
+
         {/* Delete button (edit mode only) */}
         {isEditMode && (
           <TouchableOpacity
@@ -129,7 +321,7 @@ export default function AlarmEditScreen() {
             <Text style={styles.deleteText}>Delete Alarm</Text>
           </TouchableOpacity>
         )}
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -142,7 +334,7 @@ const styles = StyleSheet.create({
     backgroundColor: '#0A0A0C',
   },
   content: {
-    flex: 1,
+    flexGrow: 1,
     alignItems: 'center',
   },
 
@@ -193,6 +385,27 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
   },
 
+  // ── Label / note ─────────────────────────────────────────────
+  labelInput: {
+    width: '80%',
+    fontSize: 17,
+    color: '#E8E8E3',
+    textAlign: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#3A3A42',
+  },
+  noteInput: {
+    width: '90%',
+    minHeight: 80,
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    padding: 14,
+    fontSize: 15,
+    color: '#E8E8E3',
+    textAlignVertical: 'top',
+  },
+
   // ── Delete ───────────────────────────────────────────────────
   deleteButton: {
     marginTop: 'auto',
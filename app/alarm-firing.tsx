@@ -3,10 +3,17 @@
 // 1. Maxes screen brightness and saves the previous level
 // 2. Starts looping alarm sound via SoundManager
 // 3. Fires continuous heavy haptics on an interval
-// 4. Randomly selects a challenge (math, code, or rhythm)
-// 5. On challenge completion: stops sound/haptics, restores brightness,
-//    records dismiss time, and navigates to the victory screen
+// 4. Resolves the alarm's challenge chain (allowed types, stages,
+//    difficulty, rounds) into concrete challenges, with a stage progress
+//    indicator when there is more than one
+// 5. On completing the last stage: stops sound/haptics, restores
+//    brightness, records the session in the dismissal history, and
+//    navigates to the victory screen
 // Hold-to-skip (30s) provides an escape hatch if the challenge is too hard
+//
+// Progress lives in the store's persisted firing session, so if the app is
+// killed mid-challenge this screen reopens on the same chain and stage with
+// the original start time.
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import {
@@ -22,11 +29,21 @@ import * as Brightness from 'expo-brightness';
 import * as Haptics from 'expo-haptics';
 import { useAlarmStore } from '../lib/alarm-store';
 import { soundManager } from '../lib/sound-manager';
-import { Colors, Typography, Spacing } from '../lib/constants';
-import { MathChallenge } from '../components/challenges/MathChallenge';
-import { RhythmChallenge } from '../components/challenges/RhythmChallenge';
-import { CodeChallenge } from '../components/challenges/CodeChallenge';
-import type { ChallengeType, SoundKey } from '../lib/types';
+import {
+  Colors,
+  Typography,
+  Spacing,
+  DEFAULT_ALARM_TITLE,
+  DEFAULT_CHALLENGE_CONFIG,
+} from '../lib/constants';
+import { getRingingSound } from '../lib/alarm-scheduler';
+import { isSessionActive } from '../lib/firing-session';
+import {
+  resolveChallengeChain,
+  resolveChallengeProps,
+  restoreChallengeChain,
+} from '../components/challenges/registry';
+import type { ChallengeDefinition } from '../components/challenges/registry';
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -57,16 +74,25 @@ export default function AlarmFiringScreen() {
   const router = useRouter();
 
   // ── Store selectors ─────────────────────────────────────────────────────
-  const [challengeType] = useState<ChallengeType>(() => {
-    const options: ChallengeType[] = ['math', 'rhythm', 'code'];
-    return options[Math.floor(Math.random() * options.length)];
-  });
-  const activeAlarmId = useAlarmStore((s) => s.activeAlarmId);
   const activeAlarm = useAlarmStore((s) =>
-    s.activeAlarmId ? s.alarms.find((a) => a.id === s.activeAlarmId) : undefined,
+    s.session.alarmId ? s.alarms.find((a) => a.id === s.session.alarmId) : undefined,
   );
   const soundChoice = activeAlarm?.soundChoice ?? 'SIREN';
 
+  // Test alarms (no active alarm) use the default config
+  const challengeConfig = activeAlarm?.challenge ?? DEFAULT_CHALLENGE_CONFIG;
+  // A session already in a challenge is being resumed: reuse its chain
+  const [chain] = useState<ChallengeDefinition[]>(() => {
+    const { session } = useAlarmStore.getState();
+    const restored =
+      session.phase === 'in-challenge' ? restoreChallengeChain(session.challengeTypes) : null;
+    return restored ?? resolveChallengeChain(challengeConfig);
+  });
+  const stageIndex = useAlarmStore((s) =>
+    s.session.phase === 'in-challenge' ? Math.min(s.session.stageIndex, chain.length - 1) : 0,
+  );
+  const challenge = chain[stageIndex];
+
   // ── Refs for cleanup ────────────────────────────────────────────────────
   const hapticIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const shakeIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -87,7 +113,7 @@ export default function AlarmFiringScreen() {
   const shakeY = useRef(new Animated.Value(0)).current;
 
   // ── handleComplete ──────────────────────────────────────────────────────
-  const handleComplete = useCallback(async () => {
+  const handleComplete = useCallback(async (usedSkip: boolean = false) => {
     if (!isMountedRef.current) return;
 
     // 1. Stop sound
@@ -103,8 +129,8 @@ export default function AlarmFiringScreen() {
       hapticIntervalRef.current = null;
     }
 
-    // 3. Get elapsed time from store
-    const seconds = useAlarmStore.getState().completeDismiss();
+    // 3. Record the session and get elapsed time from store
+    const seconds = useAlarmStore.getState().completeDismiss(usedSkip);
 
     // 4. Restore brightness
     try {
@@ -122,6 +148,18 @@ export default function AlarmFiringScreen() {
     }
   }, [router]);
 
+  // ── handleStageComplete ─────────────────────────────────────────────────
+  // Earlier stages advance the chain; only the last one dismisses
+  const handleStageComplete = useCallback(() => {
+    if (!isMountedRef.current) return;
+    if (stageIndex < chain.length - 1) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      useAlarmStore.getState().advanceStage();
+      return;
+    }
+    handleComplete();
+  }, [stageIndex, chain.length, handleComplete]);
+
   // ── Mount: Start all alarm effects ──────────────────────────────────────
   useEffect(() => {
     isMountedRef.current = true;
@@ -136,15 +174,23 @@ export default function AlarmFiringScreen() {
         console.warn('[AlarmFiring] Brightness error:', e);
       }
 
-      // 2. Start ringing state in store
-      useAlarmStore.getState().startRinging();
+      // 2. Start a session if there isn't one (test alarm) — launches and
+      //    resumed sessions arrive with one already ringing
+      if (!isSessionActive(useAlarmStore.getState().session)) {
+        useAlarmStore.getState().beginSession(null);
+      }
 
-      // 3. Start challenge timer
-      useAlarmStore.getState().startChallenge();
+      // 3. Start challenge timer (no-op when resuming)
+      useAlarmStore.getState().startChallenge(chain.map((c) => c.id));
 
-      // 4. Play alarm sound
+      // 4. Play alarm sound — escalated if a later re-trigger opened the app
+      const { ringStartTime } = useAlarmStore.getState().session;
+      const sound =
+        activeAlarm && ringStartTime !== null
+          ? getRingingSound(activeAlarm, ringStartTime)
+          : soundChoice;
       try {
-        await soundManager.playAlarm(soundChoice as SoundKey);
+        await soundManager.playAlarm(sound);
       } catch (e) {
         console.warn('[AlarmFiring] Sound playback error:', e);
       }
@@ -249,7 +295,7 @@ export default function AlarmFiringScreen() {
           skipTimerRef.current = null;
         }
         skipStartTimeRef.current = null;
-        handleComplete();
+        handleComplete(true);
       }
     }, 100);
   }, [handleComplete]);
@@ -275,23 +321,6 @@ export default function AlarmFiringScreen() {
     };
   }, []);
 
-  // ── Render challenge by type ────────────────────────────────────────────
-  function renderChallenge(type: ChallengeType) {
-    switch (type) {
-      case 'math':
-        return <MathChallenge onComplete={handleComplete} />;
-      case 'rhythm':
-        return <RhythmChallenge onComplete={handleComplete} />;
-      case 'code':
-        return <CodeChallenge onComplete={handleComplete} />;
-      default: {
-        // Exhaustive check — should never reach here
-        const _exhaustive: never = type;
-        return _exhaustive;
-      }
-    }
-  }
-
   // ── Render ──────────────────────────────────────────────────────────────
   return (
     <Animated.View style={[styles.container, { backgroundColor: animatedBgColor }]}>
@@ -306,12 +335,35 @@ export default function AlarmFiringScreen() {
         {/* ── Top Third: Clock & Label ──────────────────────────────── */}
         <View style={styles.clockSection}>
           <Text style={styles.timeText}>{currentTime}</Text>
-          <Text style={styles.wakeUpText}>WAKE UP</Text>
+          <Text style={styles.wakeUpText} numberOfLines={2}>
+            {activeAlarm?.label ?? DEFAULT_ALARM_TITLE}
+          </Text>
+          {!!activeAlarm?.note && <Text style={styles.noteText}>{activeAlarm.note}</Text>}
+          {chain.length > 1 && (
+            <View style={styles.stageProgress}>
+              <View style={styles.stageDots}>
+                {chain.map((stage, index) => (
+                  <View
+                    key={index}
+                    style={[styles.stageDot, index <= stageIndex && styles.stageDotActive]}
+                  />
+                ))}
+              </View>
+              <Text style={styles.stageText}>
+                STAGE {stageIndex + 1}/{chain.length} · {challenge.label.toUpperCase()}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* ── Bottom Two-Thirds: Challenge Panel ───────────────────── */}
         <View style={styles.challengeSection}>
-          {renderChallenge(challengeType)}
+          <challenge.component
+            key={stageIndex}
+            {...resolveChallengeProps(challenge, challengeConfig)}
+            onComplete={handleStageComplete}
+            onWrongAttempt={useAlarmStore.getState().recordWrongAttempt}
+          />
         </View>
 
         {/* ── Skip Bar ─────────────────────────────────────────────── */}
@@ -366,6 +418,41 @@ const styles = StyleSheet.create({
     color: Colors.white,
     letterSpacing: Typography.letterSpacing.widest,
     marginTop: Spacing.sm,
+    paddingHorizontal: Spacing['2xl'],
+    textAlign: 'center',
+  },
+  noteText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.white,
+    opacity: 0.8,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing['2xl'],
+  },
+
+  stageProgress: {
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
+  stageDots: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  stageDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  stageDotActive: {
+    backgroundColor: Colors.white,
+  },
+  stageText: {
+    fontSize: 13,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.white,
+    letterSpacing: Typography.letterSpacing.widest,
+    marginTop: Spacing.xs,
   },
 
   // ── Challenge Section (bottom two-thirds) ─────────────────────────────
@@ -9,12 +9,27 @@ import {
   PanResponder,
   Alert,
   AppState,
+  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAlarmStore } from '../lib/alarm-store';
+import { now as currentTime } from '../lib/clock';
+import {
+  addDays,
+  formatRotation,
+  formatShortDate,
+  getCivilDate,
+  getNextOccurrence,
+  getNextSkippedDate,
+  getUpcomingSkipDates,
+  parseISODate,
+  toISODate,
+} from '../lib/recurrence';
+import type { CivilDate } from '../lib/recurrence';
 import { getSystemVolume } from '../modules/alarm-kit';
 import type { Alarm } from '../lib/types';
+import type { ScheduleResult } from '../lib/alarm-backend';
 
 // Below 30% the alarm is hard to hear; triggers banner + alert on arm
 const VOLUME_THRESHOLD = 0.3;
@@ -24,18 +39,88 @@ const VOLUME_THRESHOLD = 0.3;
 const DAY_LETTERS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
 const SWIPE_THRESHOLD = -80;
 
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** Formats the time until the next ring, e.g. "Rings in 7h 12m" */
+function formatRingsIn(ms: number): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / 60_000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `Rings in ${days}d ${hours}h`;
+  if (hours > 0) return `Rings in ${hours}h ${minutes}m`;
+  return `Rings in ${minutes}m`;
+}
+
+/** "tomorrow", "today" or e.g. "Tue Oct 21" for a skipped day */
+function formatSkippedDay(date: CivilDate, now: number): string {
+  const today = getCivilDate(now);
+  const value = toISODate(date);
+  if (value === toISODate(today)) return 'today';
+  if (value === toISODate(addDays(today, 1))) return 'tomorrow';
+  return formatShortDate(date);
+}
+
+/** Short badge text for a schedule outcome that will keep the alarm from ringing */
+function getScheduleWarning(result: ScheduleResult): string | null {
+  switch (result.status) {
+    case 'scheduled':
+      return null;
+    case 'permission-denied':
+      return 'NO ALARM PERMISSION';
+    case 'invalid':
+      return 'NOT SCHEDULED';
+    case 'native-error':
+      return 'SCHEDULING FAILED';
+  }
+}
+
+/** Explain a failed schedule; permission problems link to Settings */
+function showScheduleProblem(result: ScheduleResult): void {
+  switch (result.status) {
+    case 'scheduled':
+      return;
+    case 'permission-denied':
+      Alert.alert(
+        'Alarms are not allowed',
+        'WAKE needs permission to schedule alarms. Allow it in Settings, then toggle the alarm again.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Open Settings', onPress: () => Linking.openSettings() },
+        ],
+      );
+      return;
+    case 'invalid':
+    case 'native-error':
+      Alert.alert("This alarm won't ring", result.message);
+      return;
+  }
+}
+
 // ─── Swipeable Alarm Row ────────────────────────────────────────────
 
 function AlarmRow({
   alarm,
+  now,
+  paused,
+  scheduleStatus,
   onPress,
   onToggle,
   onDelete,
+  onUndoSkip,
 }: {
   alarm: Alarm;
+  /** Time the row's "Rings in …" and skip labels count from */
+  now: number;
+  /** Vacation mode is on, so the alarm won't ring even if armed */
+  paused: boolean;
+  /** Outcome of the alarm's last native schedule, if known */
+  scheduleStatus: ScheduleResult | undefined;
   onPress: () => void;
   onToggle: () => void;
   onDelete: () => void;
+  /** Remove one skip date ("YYYY-MM-DD") so the alarm rings that day again */
+  onUndoSkip: (date: string) => void;
 }) {
   const translateX = useRef(new Animated.Value(0)).current;
 
@@ -68,10 +153,21 @@ function AlarmRow({
 
   const timeStr = `${String(alarm.time.hour).padStart(2, '0')}:${String(alarm.time.minute).padStart(2, '0')}`;
 
-  const activeDays = alarm.enabledDays
-    .map((on, i) => (on ? DAY_LETTERS[i] : null))
-    .filter(Boolean)
-    .join('  ');
+  const onceDate = alarm.date ? parseISODate(alarm.date) : null;
+  const activeDays = onceDate
+    ? `ONCE · ${formatShortDate(onceDate).toUpperCase()}`
+    : alarm.rotation
+      ? formatRotation(alarm.rotation)
+      : alarm.enabledDays
+          .map((on, i) => (on ? DAY_LETTERS[i] : null))
+          .filter(Boolean)
+          .join('  ');
+
+  const willRing = alarm.isArmed && !paused;
+  const nextRing = willRing ? getNextOccurrence(alarm, { from: now }) : null;
+  const warning = willRing && scheduleStatus ? getScheduleWarning(scheduleStatus) : null;
+  const skipped = willRing ? getNextSkippedDate(alarm, { from: now }) : null;
+  const moreSkips = skipped ? getUpcomingSkipDates(alarm, { from: now }).length - 1 : 0;
 
   return (
     <View style={styles.rowWrapper}>
@@ -90,10 +186,48 @@ function AlarmRow({
           onPress={onPress}
         >
           <View style={styles.rowLeft}>
-            <Text style={[styles.rowTime, !alarm.isArmed && styles.rowTimeDimmed]}>
+            {!!alarm.label && (
+              <Text style={styles.rowLabel} numberOfLines={1}>
+                {alarm.label}
+              </Text>
+            )}
+            <Text style={[styles.rowTime, !willRing && styles.rowTimeDimmed]}>
               {timeStr}
             </Text>
             <Text style={styles.rowDays}>{activeDays || 'No days'}</Text>
+            {skipped !== null && (
+              <View style={styles.skipRow}>
+                <Text style={styles.skipText}>
+                  Skipping {formatSkippedDay(skipped, now)}
+                  {moreSkips > 0 ? ` +${moreSkips} more` : ''}
+                </Text>
+                <TouchableOpacity
+                  activeOpacity={0.7}
+                  onPress={() => onUndoSkip(toISODate(skipped))}
+                  hitSlop={8}
+                >
+                  <Text style={styles.skipUndo}>UNDO</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {nextRing !== null && warning === null && (
+              <Text style={styles.rowNext}>{formatRingsIn(nextRing - now)}</Text>
+            )}
+            {alarm.isArmed && paused && <Text style={styles.rowNext}>Paused</Text>}
+            {warning !== null && scheduleStatus && (
+              <TouchableOpacity
+                style={styles.warningBadge}
+                activeOpacity={0.7}
+                onPress={() => showScheduleProblem(scheduleStatus)}
+              >
+                <Text style={styles.warningBadgeText}>⚠ {warning}</Text>
+              </TouchableOpacity>
+            )}
+            {!!alarm.note && (
+              <Text style={styles.rowNote} numberOfLines={1}>
+                {alarm.note}
+              </Text>
+            )}
           </View>
         </TouchableOpacity>
 
@@ -117,8 +251,14 @@ export default function HomeScreen() {
   const alarms = useAlarmStore((s) => s.alarms);
   const toggleAlarm = useAlarmStore((s) => s.toggleAlarm);
   const deleteAlarm = useAlarmStore((s) => s.deleteAlarm);
+  const updateAlarm = useAlarmStore((s) => s.updateAlarm);
+  const scheduleStatus = useAlarmStore((s) => s.scheduleStatus);
+  const pausedUntil = useAlarmStore((s) => s.pausedUntil);
   const [volumeLow, setVolumeLow] = useState(false);
+  const [now, setNow] = useState(() => currentTime());
 
+  const paused = pausedUntil !== null;
+  const pausedUntilDate = pausedUntil ? parseISODate(pausedUntil) : null;
   const hasArmedAlarm = alarms.some((a) => a.isArmed);
 
   // Check volume on mount and when app returns to foreground
@@ -135,6 +275,19 @@ export default function HomeScreen() {
     return () => sub.remove();
   }, [checkVolume]);
 
+  // Row labels count from now: refresh them every minute, and straight
+  // away when the app comes back to the foreground
+  useEffect(() => {
+    const tick = setInterval(() => setNow(currentTime()), 60 * 1000);
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setNow(currentTime());
+    });
+    return () => {
+      clearInterval(tick);
+      sub.remove();
+    };
+  }, []);
+
   // Wrapper around toggleAlarm: fires an alert when arming with low volume
   // so the user increases it before going to sleep
   const handleToggle = useCallback(
@@ -160,16 +313,30 @@ export default function HomeScreen() {
     [alarms, toggleAlarm],
   );
 
+  // Undo only the skip shown on the row; later ones stay
+  const handleUndoSkip = useCallback(
+    (id: string, date: string) => {
+      const alarm = alarms.find((a) => a.id === id);
+      const skipDates = alarm?.skipDates?.filter((d) => d !== date);
+      updateAlarm(id, { skipDates: skipDates?.length ? skipDates : undefined });
+    },
+    [alarms, updateAlarm],
+  );
+
   const renderItem = useCallback(
     ({ item }: { item: Alarm }) => (
       <AlarmRow
         alarm={item}
+        now={now}
+        paused={paused}
+        scheduleStatus={scheduleStatus[item.id]}
         onPress={() => router.push(`/alarm-edit?id=${item.id}`)}
         onToggle={() => handleToggle(item.id)}
         onDelete={() => deleteAlarm(item.id)}
+        onUndoSkip={(date) => handleUndoSkip(item.id, date)}
       />
     ),
-    [router, handleToggle, deleteAlarm],
+    [router, handleToggle, deleteAlarm, handleUndoSkip, scheduleStatus, paused, now],
   );
 
   const keyExtractor = useCallback((item: Alarm) => item.id, []);
@@ -178,10 +345,39 @@ export default function HomeScreen() {
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
         {/* Header */}
-        <Text style={styles.header}>WAKE</Text>
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={[styles.headerAction, styles.headerActionLeft]}
+            activeOpacity={0.7}
+            onPress={() => router.push('/restore')}
+          >
+            <Text style={styles.headerActionText}>BACKUPS</Text>
+          </TouchableOpacity>
+          <Text style={styles.header}>WAKE</Text>
+          <TouchableOpacity
+            style={[styles.headerAction, styles.headerActionRight]}
+            activeOpacity={0.7}
+            onPress={() => router.push('/stats')}
+          >
+            <Text style={styles.headerActionText}>STATS</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Vacation banner — tap to change the date or resume early */}
+        {pausedUntilDate && (
+          <TouchableOpacity
+            style={styles.pauseBanner}
+            activeOpacity={0.8}
+            onPress={() => router.push('/vacation')}
+          >
+            <Text style={styles.pauseBannerText}>
+              Paused until {formatShortDate(pausedUntilDate)}
+            </Text>
+          </TouchableOpacity>
+        )}
 
         {/* Volume warning banner — only visible when armed and below threshold */}
-        {volumeLow && hasArmedAlarm && (
+        {volumeLow && hasArmedAlarm && !paused && (
           <TouchableOpacity
             style={styles.volumeBanner}
             activeOpacity={0.8}
@@ -207,6 +403,7 @@ export default function HomeScreen() {
         ) : (
           <FlatList
             data={alarms}
+            extraData={[scheduleStatus, paused, now]}
             renderItem={renderItem}
             keyExtractor={keyExtractor}
             contentContainerStyle={styles.listContent}
@@ -214,7 +411,7 @@ export default function HomeScreen() {
           />
         )}
 
-        {/* Bottom bar: Add + Test */}
+        {/* Bottom bar: Add + Vacation + Test */}
         <View style={styles.bottomBar}>
           <TouchableOpacity
             activeOpacity={0.8}
@@ -224,6 +421,16 @@ export default function HomeScreen() {
             <Text style={styles.addButtonText}>+</Text>
           </TouchableOpacity>
 
+          {!paused && (
+            <TouchableOpacity
+              activeOpacity={0.5}
+              onPress={() => router.push('/vacation')}
+              style={styles.testButton}
+            >
+              <Text style={styles.testButtonText}>Pause Alarms</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Test Alarm -- development shortcut */}
           <TouchableOpacity
             activeOpacity={0.5}
@@ -248,14 +455,33 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  headerRow: {
+    justifyContent: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
   header: {
     fontSize: 13,
     fontWeight: '600',
     letterSpacing: 4,
     color: '#5A5A63',
     textAlign: 'center',
-    marginTop: 16,
-    marginBottom: 24,
+  },
+  headerAction: {
+    position: 'absolute',
+    paddingVertical: 4,
+  },
+  headerActionLeft: {
+    left: 20,
+  },
+  headerActionRight: {
+    right: 20,
+  },
+  headerActionText: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#9999A1',
   },
 
   // ── Empty state ──────────────────────────────────────────────
@@ -291,6 +517,22 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 
+  // ── Vacation ───────────────────────────────────────────────
+  pauseBanner: {
+    backgroundColor: '#131316',
+    marginHorizontal: 20,
+    marginBottom: 12,
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  pauseBannerText: {
+    color: '#E8E8E3',
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+
   // ── List ─────────────────────────────────────────────────────
   listContent: {
     paddingHorizontal: 20,
@@ -328,8 +570,14 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   rowLeft: {
+    flexShrink: 1,
     gap: 4,
   },
+  rowLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#E8E8E3',
+  },
   rowTime: {
     fontSize: 36,
     fontWeight: '200',
@@ -345,6 +593,43 @@ const styles = StyleSheet.create({
     color: '#9999A1',
     letterSpacing: 2,
   },
+  rowNext: {
+    fontSize: 11,
+    color: '#5A5A63',
+  },
+  skipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  skipText: {
+    fontSize: 11,
+    color: '#9999A1',
+  },
+  skipUndo: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1,
+    color: '#E8E8E3',
+  },
+  warningBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FF6B35',
+    borderRadius: 6,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+  },
+  warningBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1,
+    color: '#FFFFFF',
+  },
+  rowNote: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#5A5A63',
+  },
 
   // ── Toggle ───────────────────────────────────────────────────
   toggleTrack: {
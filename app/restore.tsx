@@ -0,0 +1,252 @@
+// ─── Restore Screen ───────────────────────────────────────────────────────────
+// Lists the rolling store snapshots kept by lib/store-backups with their
+// date and alarm count, and restores one on tap. Opened automatically on
+// launch when the stored alarm data couldn't be read, and from the home
+// header otherwise. Also links to the export/import screen.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { restoreFromBackup } from '../lib/alarm-store';
+import { clearCorruptState, getCorruptState, listBackups } from '../lib/store-backups';
+import type { BackupInfo } from '../lib/store-backups';
+import {
+  formatShortDate,
+  getCivilDate,
+  getDeviceTimeZone,
+  getZonedParts,
+} from '../lib/recurrence';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** e.g. "Sun Oct 19 · 07:42" */
+function formatSavedAt(savedAt: number): string {
+  const { hour, minute } = getZonedParts(savedAt, getDeviceTimeZone());
+  const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  return `${formatShortDate(getCivilDate(savedAt))} · ${time}`;
+}
+
+// ─── Restore Screen ─────────────────────────────────────────────────
+
+export default function RestoreScreen() {
+  const router = useRouter();
+  const [backups, setBackups] = useState<BackupInfo[] | null>(null);
+  const [isCorrupt, setIsCorrupt] = useState(() => getCorruptState() !== null);
+
+  useEffect(() => {
+    listBackups().then(setBackups);
+  }, []);
+
+  const handleRestore = useCallback(
+    (backup: BackupInfo) => {
+      Alert.alert(
+        'Restore this backup?',
+        `Your current alarms will be replaced with the backup from ${formatSavedAt(backup.savedAt)}.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Restore',
+            onPress: async () => {
+              const ok = await restoreFromBackup(backup.key);
+              if (!ok) {
+                Alert.alert('Backup unreadable', 'This backup could not be restored.');
+                return;
+              }
+              router.replace('/');
+            },
+          },
+        ],
+      );
+    },
+    [router],
+  );
+
+  // Keep the empty store and let snapshots resume
+  const handleStartFresh = useCallback(() => {
+    clearCorruptState();
+    setIsCorrupt(false);
+    router.replace('/');
+  }, [router]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: BackupInfo }) => (
+      <TouchableOpacity style={styles.row} activeOpacity={0.7} onPress={() => handleRestore(item)}>
+        <Text style={styles.rowDate}>{formatSavedAt(item.savedAt)}</Text>
+        <Text style={styles.rowCount}>
+          {item.alarmCount} {item.alarmCount === 1 ? 'alarm' : 'alarms'}
+        </Text>
+      </TouchableOpacity>
+    ),
+    [handleRestore],
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Navigation bar */}
+      <View style={styles.navBar}>
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7}>
+          <Text style={styles.navBack}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.navTitle}>Backups</Text>
+        <View style={styles.navSpacer} />
+      </View>
+
+      {/* Corruption banner */}
+      {isCorrupt && (
+        <View style={styles.corruptBanner}>
+          <Text style={styles.corruptText}>
+            Your saved alarms couldn't be read. Restore a backup below, or start fresh.
+          </Text>
+        </View>
+      )}
+
+      {backups !== null && backups.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No backups yet</Text>
+          <Text style={styles.emptySubtext}>A snapshot is kept each time your alarms change</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={backups ?? []}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.key}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.transferButton}
+        activeOpacity={0.7}
+        onPress={() => router.push('/transfer')}
+      >
+        <Text style={styles.transferText}>Export / Import</Text>
+      </TouchableOpacity>
+
+      {isCorrupt && (
+        <TouchableOpacity style={styles.freshButton} activeOpacity={0.7} onPress={handleStartFresh}>
+          <Text style={styles.freshText}>Start Fresh</Text>
+        </TouchableOpacity>
+      )}
+    </SafeAreaView>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0A0C',
+  },
+
+  // ── Nav bar ──────────────────────────────────────────────────
+  navBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  navBack: {
+    fontSize: 15,
+    color: '#9999A1',
+  },
+  navTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textTransform: 'uppercase',
+  },
+  navSpacer: {
+    width: 36,
+  },
+
+  // ── Corruption banner ────────────────────────────────────────
+  corruptBanner: {
+    backgroundColor: '#FF6B35',
+    marginHorizontal: 20,
+    marginBottom: 12,
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  corruptText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+
+  // ── Empty state ──────────────────────────────────────────────
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 17,
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: '#3A3A42',
+    marginTop: 8,
+  },
+
+  // ── List ─────────────────────────────────────────────────────
+  listContent: {
+    paddingHorizontal: 20,
+  },
+  row: {
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  rowDate: {
+    fontSize: 15,
+    color: '#E8E8E3',
+  },
+  rowCount: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: '#9999A1',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+
+  // ── Transfer link ────────────────────────────────────────────
+  transferButton: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+  },
+  transferText: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textTransform: 'uppercase',
+  },
+
+  // ── Start fresh ──────────────────────────────────────────────
+  freshButton: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    marginBottom: 16,
+  },
+  freshText: {
+    fontSize: 15,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+});
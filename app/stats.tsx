@@ -0,0 +1,305 @@
+// ─── Stats Screen ─────────────────────────────────────────────────────────────
+// Wake-up statistics computed from the persisted dismissal history: streaks,
+// average/best dismissal time per challenge, hold-to-skip usage, and a
+// per-weekday chart of how long after the alarm time we actually got up.
+// Test alarms are excluded.
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAlarmStore } from '../lib/alarm-store';
+import { queryHistory } from '../lib/dismissal-history';
+import {
+  formatDuration,
+  getChallengeStats,
+  getSkipStats,
+  getStreakStats,
+  getWeekdayLateness,
+} from '../lib/wake-stats';
+import { getChallenge } from '../components/challenges/registry';
+import { DAYS_OF_WEEK } from '../lib/constants';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const CHART_HEIGHT = 120;
+const BAR_COLOR = '#E8E8E3';
+const BAR_EMPTY_COLOR = '#2A2A30';
+
+// ─── Stat Tile ──────────────────────────────────────────────────────
+
+function StatTile({ value, label }: { value: string; label: string }) {
+  return (
+    <View style={styles.tile}>
+      <Text style={styles.tileValue}>{value}</Text>
+      <Text style={styles.tileLabel}>{label}</Text>
+    </View>
+  );
+}
+
+// ─── Stats Screen ───────────────────────────────────────────────────
+
+export default function StatsScreen() {
+  const router = useRouter();
+  const history = useAlarmStore((s) => s.history);
+
+  const stats = useMemo(() => {
+    const records = queryHistory(history);
+    return {
+      total: records.length,
+      streaks: getStreakStats(records),
+      challenges: getChallengeStats(records),
+      skips: getSkipStats(records),
+      weekdays: getWeekdayLateness(records),
+    };
+  }, [history]);
+
+  const maxLateness = Math.max(1, ...stats.weekdays.map((d) => d.averageSeconds ?? 0));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Navigation bar */}
+      <View style={styles.navBar}>
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7}>
+          <Text style={styles.navBack}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.navTitle}>Stats</Text>
+        <View style={styles.navSpacer} />
+      </View>
+
+      {stats.total === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No wake-ups yet</Text>
+          <Text style={styles.emptySubtext}>Stats appear after your first dismissed alarm</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Streaks */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>STREAK</Text>
+            <View style={styles.tileRow}>
+              <StatTile value={String(stats.streaks.current)} label="CURRENT" />
+              <StatTile value={String(stats.streaks.best)} label="BEST" />
+              <StatTile value={String(stats.total)} label="WAKE-UPS" />
+            </View>
+          </View>
+
+          {/* Per-challenge dismissal times */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>CHALLENGES</Text>
+            {stats.challenges.map((entry) => {
+              const challenge = getChallenge(entry.type);
+              return (
+                <View key={entry.type} style={styles.challengeRow}>
+                  <Text style={[styles.challengeLabel, { color: challenge?.color ?? BAR_COLOR }]}>
+                    {challenge?.label ?? entry.type}
+                  </Text>
+                  <Text style={styles.challengeValue}>
+                    avg{' '}
+                    {entry.averageSeconds !== null ? formatDuration(entry.averageSeconds) : '—'}
+                  </Text>
+                  <Text style={styles.challengeValue}>
+                    best {entry.bestSeconds !== null ? formatDuration(entry.bestSeconds) : '—'}
+                  </Text>
+                  <Text style={styles.challengeCount}>×{entry.sessions}</Text>
+                </View>
+              );
+            })}
+          </View>
+
+          {/* Hold-to-skip usage */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>SKIPS</Text>
+            <Text style={styles.skipText}>
+              {stats.skips.skipped} of {stats.skips.total} ·{' '}
+              {Math.round(stats.skips.rate * 100)}%
+            </Text>
+          </View>
+
+          {/* Lateness per weekday */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>UP AFTER ALARM</Text>
+            <View style={styles.chart}>
+              {stats.weekdays.map((day) => {
+                const seconds = day.averageSeconds;
+                const height =
+                  seconds !== null ? Math.max(2, (seconds / maxLateness) * CHART_HEIGHT) : 2;
+                return (
+                  <View key={day.dayIndex} style={styles.chartColumn}>
+                    <Text style={styles.chartValue}>
+                      {seconds !== null ? formatDuration(seconds) : ''}
+                    </Text>
+                    <View
+                      style={[
+                        styles.chartBar,
+                        { height, backgroundColor: seconds !== null ? BAR_COLOR : BAR_EMPTY_COLOR },
+                      ]}
+                    />
+                    <Text style={styles.chartDay}>{DAYS_OF_WEEK[day.dayIndex]}</Text>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0A0C',
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+
+  // ── Nav bar ──────────────────────────────────────────────────
+  navBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  navBack: {
+    fontSize: 15,
+    color: '#9999A1',
+  },
+  navTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textTransform: 'uppercase',
+  },
+  navSpacer: {
+    width: 36,
+  },
+
+  // ── Empty state ──────────────────────────────────────────────
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 17,
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: '#3A3A42',
+    marginTop: 8,
+  },
+
+  // ── Sections ─────────────────────────────────────────────────
+  section: {
+    gap: 12,
+    marginTop: 28,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textAlign: 'center',
+  },
+
+  // ── Tiles ────────────────────────────────────────────────────
+  tileRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  tile: {
+    flex: 1,
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+    gap: 4,
+  },
+  tileValue: {
+    fontSize: 32,
+    fontWeight: '200',
+    color: '#E8E8E3',
+  },
+  tileLabel: {
+    fontSize: 11,
+    fontWeight: '500',
+    letterSpacing: 2,
+    color: '#9999A1',
+  },
+
+  // ── Challenges ───────────────────────────────────────────────
+  challengeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    gap: 16,
+  },
+  challengeLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+  challengeValue: {
+    fontSize: 13,
+    color: '#E8E8E3',
+  },
+  challengeCount: {
+    fontSize: 13,
+    color: '#5A5A63',
+    minWidth: 28,
+    textAlign: 'right',
+  },
+
+  // ── Skips ────────────────────────────────────────────────────
+  skipText: {
+    fontSize: 15,
+    color: '#E8E8E3',
+    textAlign: 'center',
+  },
+
+  // ── Chart ────────────────────────────────────────────────────
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 6,
+  },
+  chartValue: {
+    fontSize: 10,
+    color: '#9999A1',
+  },
+  chartBar: {
+    width: 16,
+    borderRadius: 4,
+  },
+  chartDay: {
+    fontSize: 11,
+    fontWeight: '500',
+    letterSpacing: 1,
+    color: '#5A5A63',
+  },
+});
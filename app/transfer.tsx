@@ -0,0 +1,332 @@
+// ─── Transfer Screen ──────────────────────────────────────────────────────────
+// Export and import of alarms as a JSON document (lib/alarm-transfer).
+// Export goes out through the system share sheet. Import takes pasted
+// document text, validates it, previews what would be added, updated or
+// removed, and applies it as a merge (by alarm ID) or a full replace.
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Share,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { exportAlarms, useAlarmStore } from '../lib/alarm-store';
+import { parseImport, previewImport } from '../lib/alarm-transfer';
+import type { ImportMode, ParsedImport } from '../lib/alarm-transfer';
+import { formatRotation, formatShortDate, parseISODate } from '../lib/recurrence';
+import type { Alarm } from '../lib/types';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const DAY_LETTERS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const MODE_OPTIONS: { mode: ImportMode; label: string }[] = [
+  { mode: 'merge', label: 'MERGE' },
+  { mode: 'replace', label: 'REPLACE' },
+];
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** e.g. "07:00  M T W T F", "06:30  ONCE · TUE OCT 21" or "05:45  4 ON · 4 OFF" */
+function describeAlarm(alarm: Alarm): string {
+  const time = `${String(alarm.time.hour).padStart(2, '0')}:${String(alarm.time.minute).padStart(2, '0')}`;
+  const onceDate = alarm.date ? parseISODate(alarm.date) : null;
+  const days = onceDate
+    ? `ONCE · ${formatShortDate(onceDate).toUpperCase()}`
+    : alarm.rotation
+      ? formatRotation(alarm.rotation)
+      : alarm.enabledDays
+          .map((on, i) => (on ? DAY_LETTERS[i] : null))
+          .filter(Boolean)
+          .join(' ');
+  return `${time}  ${days || 'No days'}`;
+}
+
+// ─── Transfer Screen ────────────────────────────────────────────────
+
+export default function TransferScreen() {
+  const router = useRouter();
+  const alarms = useAlarmStore((s) => s.alarms);
+  const importAlarms = useAlarmStore((s) => s.importAlarms);
+
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const preview = useMemo(
+    () => (parsed?.ok ? previewImport(alarms, parsed.alarms, mode) : null),
+    [alarms, parsed, mode],
+  );
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: exportAlarms(), title: 'WAKE alarms' });
+    } catch (e) {
+      console.warn('[Transfer] Share failed:', e);
+    }
+  };
+
+  const handleImport = () => {
+    if (!parsed?.ok || !preview) return;
+    const removing =
+      preview.removed.length > 0 ? ` ${preview.removed.length} existing alarm(s) will be deleted.` : '';
+    Alert.alert(
+      mode === 'replace' ? 'Replace alarms?' : 'Merge alarms?',
+      `${preview.added.length} new, ${preview.updated.length} updated.${removing}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: () => {
+            importAlarms(parsed.alarms, mode);
+            router.replace('/');
+          },
+        },
+      ],
+    );
+  };
+
+  const previewRows = preview
+    ? [
+        ...preview.added.map((alarm) => ({ alarm, tag: 'NEW' })),
+        ...preview.updated.map((alarm) => ({ alarm, tag: 'UPDATE' })),
+        ...preview.removed.map((alarm) => ({ alarm, tag: 'REMOVE' })),
+      ]
+    : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Navigation bar */}
+      <View style={styles.navBar}>
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7}>
+          <Text style={styles.navBack}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.navTitle}>Export / Import</Text>
+        <View style={styles.navSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Export */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>EXPORT</Text>
+          <TouchableOpacity style={styles.button} activeOpacity={0.7} onPress={handleExport}>
+            <Text style={styles.buttonText}>
+              Share {alarms.length} {alarms.length === 1 ? 'alarm' : 'alarms'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Import */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>IMPORT</Text>
+          <TextInput
+            style={styles.input}
+            value={text}
+            onChangeText={(value) => {
+              setText(value);
+              setParsed(null);
+            }}
+            placeholder="Paste an exported document"
+            placeholderTextColor="#3A3A42"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.button, text.trim().length === 0 && styles.buttonDisabled]}
+            activeOpacity={0.7}
+            disabled={text.trim().length === 0}
+            onPress={() => setParsed(parseImport(text))}
+          >
+            <Text style={styles.buttonText}>Preview</Text>
+          </TouchableOpacity>
+
+          {parsed && !parsed.ok && <Text style={styles.errorText}>{parsed.error}</Text>}
+
+          {parsed?.ok && preview && (
+            <>
+              <View style={styles.modeRow}>
+                {MODE_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.mode}
+                    activeOpacity={0.7}
+                    onPress={() => setMode(option.mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.modeLabel,
+                        option.mode === mode ? styles.modeSelected : styles.modeUnselected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.summaryText}>
+                {preview.added.length} new · {preview.updated.length} updated ·{' '}
+                {preview.removed.length} removed · {preview.unchanged.length} unchanged
+              </Text>
+              {parsed.rejected.length > 0 && (
+                <Text style={styles.errorText}>
+                  {parsed.rejected.length} invalid{' '}
+                  {parsed.rejected.length === 1 ? 'entry' : 'entries'} will be skipped
+                </Text>
+              )}
+
+              {previewRows.map(({ alarm, tag }) => (
+                <View key={`${tag}-${alarm.id}`} style={styles.previewRow}>
+                  <Text style={styles.previewAlarm}>{describeAlarm(alarm)}</Text>
+                  <Text style={[styles.previewTag, tag === 'REMOVE' && styles.previewTagRemove]}>
+                    {tag}
+                  </Text>
+                </View>
+              ))}
+
+              <TouchableOpacity style={styles.button} activeOpacity={0.7} onPress={handleImport}>
+                <Text style={styles.buttonText}>Import</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0A0C',
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+
+  // ── Nav bar ──────────────────────────────────────────────────
+  navBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  navBack: {
+    fontSize: 15,
+    color: '#9999A1',
+  },
+  navTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textTransform: 'uppercase',
+  },
+  navSpacer: {
+    width: 36,
+  },
+
+  // ── Sections ─────────────────────────────────────────────────
+  section: {
+    gap: 12,
+    marginTop: 28,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textAlign: 'center',
+  },
+
+  // ── Buttons ──────────────────────────────────────────────────
+  button: {
+    alignSelf: 'center',
+    borderWidth: 1,
+    borderColor: '#3A3A42',
+    borderRadius: 22,
+    paddingVertical: 10,
+    paddingHorizontal: 28,
+  },
+  buttonDisabled: {
+    opacity: 0.35,
+  },
+  buttonText: {
+    fontSize: 15,
+    color: '#E8E8E3',
+  },
+
+  // ── Import ───────────────────────────────────────────────────
+  input: {
+    minHeight: 120,
+    maxHeight: 240,
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    padding: 14,
+    color: '#E8E8E3',
+    fontSize: 13,
+    fontFamily: 'Menlo',
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    textAlign: 'center',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+  },
+  modeLabel: {
+    fontSize: 13,
+    letterSpacing: 2,
+  },
+  modeSelected: {
+    color: '#E8E8E3',
+    fontWeight: '600',
+  },
+  modeUnselected: {
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#9999A1',
+    textAlign: 'center',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#131316',
+    borderRadius: 14,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+  },
+  previewAlarm: {
+    fontSize: 15,
+    color: '#E8E8E3',
+  },
+  previewTag: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#9999A1',
+  },
+  previewTagRemove: {
+    color: '#EF4444',
+  },
+});
@@ -0,0 +1,189 @@
+// ─── Vacation Screen ──────────────────────────────────────────────────────────
+// Pause every alarm through a chosen date (lib/vacation-mode). Armed alarms
+// are cancelled natively but stay armed, and come back on the first launch
+// or foreground after the last paused day. While a pause is running the
+// date can be changed, or the pause ended early.
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAlarmStore } from '../lib/alarm-store';
+import {
+  addDays,
+  formatShortDate,
+  getCivilDate,
+  parseISODate,
+  toISODate,
+} from '../lib/recurrence';
+import type { CivilDate } from '../lib/recurrence';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Length of a new pause, counting today */
+const DEFAULT_PAUSE_DAYS = 7;
+
+// ─── Vacation Screen ────────────────────────────────────────────────
+
+export default function VacationScreen() {
+  const router = useRouter();
+  const pausedUntil = useAlarmStore((s) => s.pausedUntil);
+  const armedCount = useAlarmStore((s) => s.alarms.filter((a) => a.isArmed).length);
+  const pauseAlarms = useAlarmStore((s) => s.pauseAlarms);
+  const resumeAlarms = useAlarmStore((s) => s.resumeAlarms);
+
+  const today = getCivilDate(Date.now());
+  const [until, setUntil] = useState<CivilDate>(
+    () => (pausedUntil ? parseISODate(pausedUntil) : null) ?? addDays(today, DEFAULT_PAUSE_DAYS - 1),
+  );
+  const canStepBack = toISODate(until) > toISODate(today);
+
+  const handlePause = () => {
+    pauseAlarms(toISODate(until));
+    router.back();
+  };
+
+  const handleResume = () => {
+    resumeAlarms();
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Navigation bar */}
+      <View style={styles.navBar}>
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7}>
+          <Text style={styles.navBack}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.navTitle}>Vacation</Text>
+        <View style={styles.navSpacer} />
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>PAUSE ALL ALARMS THROUGH</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              activeOpacity={0.7}
+              disabled={!canStepBack}
+              onPress={() => setUntil(addDays(until, -1))}
+            >
+              <Text style={[styles.arrow, !canStepBack && styles.arrowDisabled]}>‹</Text>
+            </TouchableOpacity>
+            <Text style={styles.dateText}>{formatShortDate(until)}</Text>
+            <TouchableOpacity activeOpacity={0.7} onPress={() => setUntil(addDays(until, 1))}>
+              <Text style={styles.arrow}>›</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            {armedCount === 0
+              ? 'No alarms are armed'
+              : `${armedCount} armed ${armedCount === 1 ? 'alarm rings' : 'alarms ring'} again from ${formatShortDate(addDays(until, 1))}`}
+          </Text>
+          <Text style={styles.hint}>Open WAKE after the pause to bring them back</Text>
+        </View>
+
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.button} activeOpacity={0.7} onPress={handlePause}>
+            <Text style={styles.buttonText}>{pausedUntil ? 'Update Pause' : 'Pause Alarms'}</Text>
+          </TouchableOpacity>
+          {pausedUntil !== null && (
+            <TouchableOpacity style={styles.button} activeOpacity={0.7} onPress={handleResume}>
+              <Text style={styles.buttonText}>Resume Now</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0A0C',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+
+  // ── Nav bar ──────────────────────────────────────────────────
+  navBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  navBack: {
+    fontSize: 15,
+    color: '#9999A1',
+  },
+  navTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textTransform: 'uppercase',
+  },
+  navSpacer: {
+    width: 36,
+  },
+
+  // ── Sections ─────────────────────────────────────────────────
+  section: {
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 28,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#5A5A63',
+    textAlign: 'center',
+  },
+
+  // ── Date stepper ─────────────────────────────────────────────
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 24,
+  },
+  arrow: {
+    fontSize: 28,
+    color: '#E8E8E3',
+    paddingHorizontal: 8,
+  },
+  arrowDisabled: {
+    color: '#3A3A42',
+  },
+  dateText: {
+    fontSize: 15,
+    color: '#E8E8E3',
+    minWidth: 96,
+    textAlign: 'center',
+  },
+
+  // ── Buttons ──────────────────────────────────────────────────
+  button: {
+    alignSelf: 'center',
+    borderWidth: 1,
+    borderColor: '#3A3A42',
+    borderRadius: 22,
+    paddingVertical: 10,
+    paddingHorizontal: 28,
+  },
+  buttonText: {
+    fontSize: 15,
+    color: '#E8E8E3',
+  },
+});
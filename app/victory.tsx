@@ -4,6 +4,11 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import { Colors, Typography } from '../lib/constants';
 import { useAlarmStore } from '../lib/alarm-store';
+import {
+  getDeviceTimeZone,
+  getPreviousOccurrence,
+  getZonedParts,
+} from '../lib/recurrence';
 
 // ─── Timing Constants ───────────────────────────────────────────────
 
@@ -36,16 +41,22 @@ export default function VictoryScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ dismissTime?: string; seconds?: string }>();
 
-  // Read active alarm from store
+  // Read the dismissed session's alarm from store
   const activeAlarm = useAlarmStore((s) =>
-    s.activeAlarmId ? s.alarms.find((a) => a.id === s.activeAlarmId) : undefined,
+    s.session.alarmId ? s.alarms.find((a) => a.id === s.session.alarmId) : undefined,
   );
-
-  // Resolve display values from route params or store
-  const displayTime = params.dismissTime ?? (activeAlarm
-    ? formatTime(activeAlarm.time.hour, activeAlarm.time.minute)
+  const sessionSeconds = useAlarmStore((s) => s.session.elapsedSeconds);
+
+  // Resolve display values from route params or store. The occurrence that
+  // just rang can differ from alarm.time on a DST spring-forward day
+  const firedAt = activeAlarm
+    ? getPreviousOccurrence(activeAlarm, { from: Date.now() })
+    : null;
+  const firedParts = firedAt !== null ? getZonedParts(firedAt, getDeviceTimeZone()) : null;
+  const displayTime = params.dismissTime ?? (firedParts
+    ? formatTime(firedParts.hour, firedParts.minute)
     : '--:--');
-  const displaySeconds = params.seconds ?? '0';
+  const displaySeconds = params.seconds ?? String(sessionSeconds ?? 0);
 
   // ── Animated values ──────────────────────────────────────────────
   const bgProgress = useRef(new Animated.Value(0)).current;
@@ -79,9 +90,13 @@ export default function VictoryScreen() {
       router.replace('/');
     }, AUTO_NAV_DELAY);
 
+    // 5. Close the firing session once we leave, so the next alarm launch
+    //    isn't mistaken for this one still being handled
     return () => {
       clearTimeout(hapticTimer);
       clearTimeout(navTimer);
+      const store = useAlarmStore.getState();
+      if (store.session.phase === 'dismissed') store.endSession();
     };
     // We intentionally run this effect only on mount.
     // eslint-disable-next-line react-hooks/exhaustive-deps
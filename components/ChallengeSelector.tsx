@@ -1,47 +1,153 @@
 // ─── Challenge Selector ───────────────────────────────────────────────────────
-// Horizontal pill-style toggle for choosing the wake-up challenge type
+// Per-alarm challenge settings: a pill row for the allowed challenge types
+// (RANDOM or any combination), the stage chain (tap a stage to cycle its
+// challenge), ‹ › steppers for stages, difficulty and rounds, and a stepper
+// for every option the allowed challenges declare in the registry
 
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import type { ChallengeType } from '../lib/types';
+import { CHALLENGE_LIMITS } from '../lib/constants';
+import { Stepper } from './Stepper';
+import { CHALLENGE_REGISTRY, getAllowedChallenges, getChallenge } from './challenges/registry';
+import type { ChallengeConfig, ChallengeStage, ChallengeType } from '../lib/types';
 
 // ─── Constants ───────────────────────────────────────────────────────
-const CHALLENGE_OPTIONS: { type: ChallengeType; label: string }[] = [
-  { type: 'rhythm', label: 'RHYTHM' },
-  { type: 'math', label: 'MATH' },
-  { type: 'code', label: 'CODE' },
-];
+/** Order a stage cycles through when tapped */
+const STAGE_CYCLE: ChallengeStage[] = ['random', ...CHALLENGE_REGISTRY.map((c) => c.id)];
 
 // ─── Props ───────────────────────────────────────────────────────────
 interface ChallengeSelectorProps {
-  selected: ChallengeType;
-  onSelect: (type: ChallengeType) => void;
+  config: ChallengeConfig;
+  onChange: (config: ChallengeConfig) => void;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function getStageLabel(stage: ChallengeStage): string {
+  if (stage === 'random') return 'RANDOM';
+  return getChallenge(stage)?.label ?? 'RANDOM';
 }
 
 // ─── Component ───────────────────────────────────────────────────────
 
-export function ChallengeSelector({ selected, onSelect }: ChallengeSelectorProps) {
+export function ChallengeSelector({ config, onChange }: ChallengeSelectorProps) {
+  const isRandom = config.types === 'random';
+
+  // Toggling a type on/off; clearing the last one falls back to RANDOM
+  const handleToggleType = (type: ChallengeType) => {
+    const current = config.types === 'random' ? [] : config.types;
+    const next = current.includes(type)
+      ? current.filter((t) => t !== type)
+      : [...current, type];
+    onChange({ ...config, types: next.length > 0 ? next : 'random' });
+  };
+
+  // Tapping a stage advances it to the next challenge in STAGE_CYCLE
+  const handleCycleStage = (index: number) => {
+    const position = STAGE_CYCLE.indexOf(config.chain[index]);
+    const next = STAGE_CYCLE[(position + 1) % STAGE_CYCLE.length];
+    onChange({ ...config, chain: config.chain.map((s, i) => (i === index ? next : s)) });
+  };
+
+  // Growing the chain appends random stages; shrinking drops from the end
+  const handleChangeStageCount = (count: number) => {
+    const chain = config.chain.slice(0, count);
+    while (chain.length < count) chain.push('random');
+    onChange({ ...config, chain });
+  };
+
   return (
-    <View style={styles.container}>
-      {CHALLENGE_OPTIONS.map(({ type, label }) => {
-        const isSelected = type === selected;
-        return (
-          <TouchableOpacity
-            key={type}
-            activeOpacity={0.7}
-            onPress={() => onSelect(type)}
+    <View style={styles.wrapper}>
+      <View style={styles.container}>
+        <TouchableOpacity
+          activeOpacity={0.7}
+          onPress={() => onChange({ ...config, types: 'random' })}
+        >
+          <Text
+            style={[
+              styles.label,
+              isRandom ? styles.labelSelected : styles.labelUnselected,
+            ]}
           >
-            <Text
-              style={[
-                styles.label,
-                isSelected ? styles.labelSelected : styles.labelUnselected,
-              ]}
+            RANDOM
+          </Text>
+        </TouchableOpacity>
+        {CHALLENGE_REGISTRY.map(({ id, label }) => {
+          const isSelected = !isRandom && config.types.includes(id);
+          return (
+            <TouchableOpacity
+              key={id}
+              activeOpacity={0.7}
+              onPress={() => handleToggleType(id)}
             >
-              {label}
-            </Text>
-          </TouchableOpacity>
-        );
-      })}
+              <Text
+                style={[
+                  styles.label,
+                  isSelected ? styles.labelSelected : styles.labelUnselected,
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.chain}>
+        {config.chain.map((stage, index) => (
+          <React.Fragment key={index}>
+            {index > 0 && <Text style={styles.chainArrow}>→</Text>}
+            <TouchableOpacity activeOpacity={0.7} onPress={() => handleCycleStage(index)}>
+              <Text style={[styles.label, styles.labelSelected]}>{getStageLabel(stage)}</Text>
+            </TouchableOpacity>
+          </React.Fragment>
+        ))}
+      </View>
+
+      <View style={styles.steppers}>
+        <Stepper
+          label="STAGES"
+          value={config.chain.length}
+          min={1}
+          max={CHALLENGE_LIMITS.maxStages}
+          onChange={handleChangeStageCount}
+        />
+        <Stepper
+          label="DIFFICULTY"
+          value={config.difficulty}
+          min={CHALLENGE_LIMITS.minDifficulty}
+          max={CHALLENGE_LIMITS.maxDifficulty}
+          onChange={(difficulty) => onChange({ ...config, difficulty })}
+        />
+        <Stepper
+          label="ROUNDS"
+          value={config.rounds}
+          min={CHALLENGE_LIMITS.minRounds}
+          max={CHALLENGE_LIMITS.maxRounds}
+          onChange={(rounds) => onChange({ ...config, rounds })}
+        />
+      </View>
+
+      {getAllowedChallenges(config).flatMap((challenge) =>
+        challenge.configSchema.map((option) => (
+          <Stepper
+            key={`${challenge.id}.${option.key}`}
+            label={`${challenge.label.toUpperCase()} ${option.label}`}
+            value={config.options?.[challenge.id]?.[option.key] ?? option.default}
+            min={option.min}
+            max={option.max}
+            onChange={(value) =>
+              onChange({
+                ...config,
+                options: {
+                  ...config.options,
+                  [challenge.id]: { ...config.options?.[challenge.id], [option.key]: value },
+                },
+              })
+            }
+          />
+        )),
+      )}
     </View>
   );
 }
@@ -49,15 +155,19 @@ export function ChallengeSelector({ selected, onSelect }: ChallengeSelectorProps
 // ─── Styles ──────────────────────────────────────────────────────────
 
 const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: 'center',
+    gap: 12,
+  },
   container: {
     flexDirection: 'row',
     justifyContent: 'center',
     alignItems: 'center',
-    gap: 32,
+    gap: 20,
   },
   label: {
-    fontSize: 15,
-    letterSpacing: 3,
+    fontSize: 13,
+    letterSpacing: 2,
     textTransform: 'uppercase',
   },
   labelSelected: {
@@ -68,4 +178,22 @@ const styles = StyleSheet.create({
     color: '#5A5A63',
     fontWeight: '500',
   },
+  chain: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 10,
+  },
+  chainArrow: {
+    fontSize: 13,
+    color: '#5A5A63',
+  },
+  steppers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    columnGap: 32,
+    rowGap: 12,
+  },
 });
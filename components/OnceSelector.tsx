@@ -0,0 +1,139 @@
+// ─── Once Selector ────────────────────────────────────────────────────────────
+// Pill row for one-time alarms: ONCE (next time the clock reaches the alarm
+// time), TOMORROW, or a specific DATE picked with a ‹ › day stepper. Sits
+// under the DaySelector — picking a pill makes the alarm one-shot, picking
+// a weekday makes it weekly again.
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { addDays, formatShortDate } from '../lib/recurrence';
+import type { CivilDate } from '../lib/recurrence';
+
+// ─── Types ───────────────────────────────────────────────────────────
+export type OnceMode = 'once' | 'tomorrow' | 'date';
+
+// ─── Constants ───────────────────────────────────────────────────────
+const MODE_OPTIONS: { mode: OnceMode; label: string }[] = [
+  { mode: 'once', label: 'ONCE' },
+  { mode: 'tomorrow', label: 'TOMORROW' },
+  { mode: 'date', label: 'DATE' },
+];
+
+// ─── Props ───────────────────────────────────────────────────────────
+interface OnceSelectorProps {
+  /** Selected mode, or null when the alarm repeats weekly */
+  mode: OnceMode | null;
+  /** Date shown by the stepper in 'date' mode */
+  date: CivilDate;
+  /** Earliest date the stepper allows (today) */
+  minDate: CivilDate;
+  onSelectMode: (mode: OnceMode) => void;
+  onChangeDate: (date: CivilDate) => void;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function compareDates(a: CivilDate, b: CivilDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export function OnceSelector({
+  mode,
+  date,
+  minDate,
+  onSelectMode,
+  onChangeDate,
+}: OnceSelectorProps) {
+  const canStepBack = compareDates(date, minDate) > 0;
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.container}>
+        {MODE_OPTIONS.map((option) => {
+          const isSelected = option.mode === mode;
+          return (
+            <TouchableOpacity
+              key={option.mode}
+              activeOpacity={0.7}
+              onPress={() => onSelectMode(option.mode)}
+            >
+              <Text
+                style={[
+                  styles.label,
+                  isSelected ? styles.labelSelected : styles.labelUnselected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {mode === 'date' && (
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            disabled={!canStepBack}
+            onPress={() => onChangeDate(addDays(date, -1))}
+          >
+            <Text style={[styles.arrow, !canStepBack && styles.arrowDisabled]}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.dateText}>{formatShortDate(date)}</Text>
+          <TouchableOpacity activeOpacity={0.7} onPress={() => onChangeDate(addDays(date, 1))}>
+            <Text style={styles.arrow}>›</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 24,
+  },
+  label: {
+    fontSize: 13,
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+  labelSelected: {
+    color: '#E8E8E3',
+    fontWeight: '600',
+  },
+  labelUnselected: {
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 24,
+  },
+  arrow: {
+    fontSize: 28,
+    color: '#E8E8E3',
+    paddingHorizontal: 8,
+  },
+  arrowDisabled: {
+    color: '#3A3A42',
+  },
+  dateText: {
+    fontSize: 15,
+    color: '#9999A1',
+    minWidth: 96,
+    textAlign: 'center',
+  },
+});
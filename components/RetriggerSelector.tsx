@@ -0,0 +1,188 @@
+// ─── Re-trigger Selector ──────────────────────────────────────────────────────
+// Per-alarm re-trigger policy: ‹ › steppers for how many re-triggers follow
+// each occurrence, the first gap and how much each later gap shrinks, a
+// preview of the resulting offsets, and a pill row to switch later
+// re-triggers to a louder sound
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { RETRIGGER_LIMITS } from '../lib/constants';
+import { getRetriggerTimes } from '../lib/recurrence';
+import { Stepper } from './Stepper';
+import type { RetriggerPolicy, SoundKey } from '../lib/types';
+
+// ─── Constants ───────────────────────────────────────────────────────
+const ESCALATION_SOUNDS: SoundKey[] = ['SIREN', 'PULSE', 'GLASS', 'DRILL', 'HORN'];
+const MINUTE_MS = 60 * 1000;
+
+/** Offsets listed in the preview before it's shortened with "…" */
+const PREVIEW_HEAD = 3;
+
+// ─── Props ───────────────────────────────────────────────────────────
+interface RetriggerSelectorProps {
+  policy: RetriggerPolicy;
+  onChange: (policy: RetriggerPolicy) => void;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** e.g. "+2, +4, +6 … +20 MIN" */
+function formatOffsets(policy: RetriggerPolicy): string {
+  const offsets = getRetriggerTimes(
+    0,
+    policy.count,
+    policy.intervalMinutes * MINUTE_MS,
+    policy.decreaseMinutes * MINUTE_MS,
+  ).map((ms) => `+${Math.round(ms / MINUTE_MS)}`);
+  const shown =
+    offsets.length > PREVIEW_HEAD + 1
+      ? `${offsets.slice(0, PREVIEW_HEAD).join(', ')} … ${offsets[offsets.length - 1]}`
+      : offsets.join(', ');
+  return `${shown} MIN`;
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export function RetriggerSelector({ policy, onChange }: RetriggerSelectorProps) {
+  const escalation = policy.escalation;
+
+  // Keep an escalation's starting re-trigger within the new count
+  const handleChangeCount = (count: number) => {
+    onChange({
+      ...policy,
+      count,
+      escalation: escalation && {
+        ...escalation,
+        from: Math.min(escalation.from, Math.max(count, 1)),
+      },
+    });
+  };
+
+  // Tapping the selected sound again turns escalation off
+  const handleSelectSound = (sound: SoundKey) => {
+    if (escalation?.sound === sound) {
+      onChange({ ...policy, escalation: undefined });
+      return;
+    }
+    const from = escalation?.from ?? Math.ceil(policy.count / 2);
+    onChange({ ...policy, escalation: { from: Math.max(from, 1), sound } });
+  };
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.steppers}>
+        <Stepper
+          label="COUNT"
+          value={policy.count}
+          min={0}
+          max={RETRIGGER_LIMITS.maxCount}
+          onChange={handleChangeCount}
+          formatValue={(count) => (count === 0 ? 'OFF' : String(count))}
+        />
+        {policy.count > 0 && (
+          <Stepper
+            label="EVERY"
+            value={policy.intervalMinutes}
+            min={RETRIGGER_LIMITS.minInterval}
+            max={RETRIGGER_LIMITS.maxInterval}
+            onChange={(intervalMinutes) => onChange({ ...policy, intervalMinutes })}
+            formatValue={(minutes) => `${minutes}m`}
+          />
+        )}
+        {policy.count > 1 && (
+          <Stepper
+            label="SHORTEN BY"
+            value={policy.decreaseMinutes}
+            min={0}
+            max={RETRIGGER_LIMITS.maxDecrease}
+            onChange={(decreaseMinutes) => onChange({ ...policy, decreaseMinutes })}
+            formatValue={(minutes) => `${minutes}m`}
+          />
+        )}
+      </View>
+
+      {policy.count > 0 && (
+        <>
+          <Text style={styles.preview}>{formatOffsets(policy)}</Text>
+
+          <View style={styles.container}>
+            <Text style={styles.rowLabel}>LOUDER</Text>
+            {ESCALATION_SOUNDS.map((sound) => (
+              <TouchableOpacity
+                key={sound}
+                activeOpacity={0.7}
+                onPress={() => handleSelectSound(sound)}
+              >
+                <Text
+                  style={[
+                    styles.label,
+                    escalation?.sound === sound ? styles.labelSelected : styles.labelUnselected,
+                  ]}
+                >
+                  {sound}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {escalation && (
+            <Stepper
+              label="FROM RE-TRIGGER"
+              value={escalation.from}
+              min={1}
+              max={policy.count}
+              onChange={(from) => onChange({ ...policy, escalation: { ...escalation, from } })}
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  rowLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+  },
+  label: {
+    fontSize: 13,
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+  labelSelected: {
+    color: '#E8E8E3',
+    fontWeight: '600',
+  },
+  labelUnselected: {
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  steppers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    columnGap: 32,
+    rowGap: 12,
+  },
+  preview: {
+    fontSize: 11,
+    letterSpacing: 1,
+    color: '#9999A1',
+  },
+});
@@ -0,0 +1,257 @@
+// ─── Rotation Selector ────────────────────────────────────────────────────────
+// Repeat patterns a single week can't express. WEEKS is a cycle of 2–4
+// weeks, each with its own days (every other week, rotating shifts); ON/OFF
+// rings a run of days then rests for a run of days (4 on / 4 off). A ‹ ›
+// stepper sets when the cycle starts — by week for WEEKS, by day for
+// ON/OFF. OFF returns the alarm to the plain weekly days.
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ROTATION_LIMITS } from '../lib/constants';
+import {
+  addDays,
+  buildOnOffRotation,
+  buildWeeksRotation,
+  formatRotation,
+  formatShortDate,
+  getRotationShape,
+  getWeekStart,
+  parseISODate,
+  toISODate,
+} from '../lib/recurrence';
+import type { CivilDate } from '../lib/recurrence';
+import { DaySelector } from './DaySelector';
+import { Stepper } from './Stepper';
+import type { RotationRecurrence } from '../lib/types';
+
+// ─── Types ───────────────────────────────────────────────────────────
+type RotationMode = 'off' | 'weeks' | 'on-off';
+
+// ─── Constants ───────────────────────────────────────────────────────
+const MODE_OPTIONS: { mode: RotationMode; label: string }[] = [
+  { mode: 'off', label: 'OFF' },
+  { mode: 'weeks', label: 'WEEKS' },
+  { mode: 'on-off', label: 'ON/OFF' },
+];
+
+const NO_DAYS = [false, false, false, false, false, false, false];
+const DEFAULT_RUN_DAYS = 4;
+
+// ─── Props ───────────────────────────────────────────────────────────
+interface RotationSelectorProps {
+  /** The alarm's rotation, or null when it repeats on its weekly days */
+  rotation: RotationRecurrence | null;
+  /** Weekly days, used as the first week when WEEKS is picked */
+  enabledDays: boolean[];
+  /** Earliest date a new cycle can start (today) */
+  minDate: CivilDate;
+  onChange: (rotation: RotationRecurrence | null) => void;
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export function RotationSelector({ rotation, enabledDays, minDate, onChange }: RotationSelectorProps) {
+  const shape = rotation ? getRotationShape(rotation) : null;
+  const mode: RotationMode = rotation?.kind ?? 'off';
+  const start = (rotation ? parseISODate(rotation.anchor) : null) ?? minDate;
+
+  // Weeks cycles step by week, so the earliest start is this week's Monday
+  const earliest = mode === 'weeks' ? getWeekStart(minDate) : minDate;
+  const canStepBack = toISODate(start) > toISODate(earliest);
+  const step = mode === 'weeks' ? 7 : 1;
+
+  const handleSelectMode = (next: RotationMode) => {
+    if (next === mode) return;
+    switch (next) {
+      case 'off':
+        onChange(null);
+        return;
+      case 'weeks':
+        onChange(buildWeeksRotation(minDate, [[...enabledDays], [...NO_DAYS]]));
+        return;
+      case 'on-off':
+        onChange(buildOnOffRotation(minDate, DEFAULT_RUN_DAYS, DEFAULT_RUN_DAYS));
+        return;
+    }
+  };
+
+  const handleChangeStart = (date: CivilDate) => {
+    if (!shape) return;
+    onChange(
+      shape.kind === 'weeks'
+        ? buildWeeksRotation(date, shape.weeks)
+        : buildOnOffRotation(date, shape.on, shape.off),
+    );
+  };
+
+  // Adding a week appends an empty one; removing drops the last
+  const handleChangeWeekCount = (count: number) => {
+    if (shape?.kind !== 'weeks') return;
+    const weeks = Array.from({ length: count }, (_, i) => shape.weeks[i] ?? [...NO_DAYS]);
+    onChange(buildWeeksRotation(start, weeks));
+  };
+
+  const handleToggleDay = (week: number, index: number) => {
+    if (shape?.kind !== 'weeks') return;
+    const weeks = shape.weeks.map((days, i) =>
+      i === week ? days.map((on, d) => (d === index ? !on : on)) : days,
+    );
+    onChange(buildWeeksRotation(start, weeks));
+  };
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.container}>
+        <Text style={styles.rowLabel}>ROTATION</Text>
+        {MODE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.mode}
+            activeOpacity={0.7}
+            onPress={() => handleSelectMode(option.mode)}
+          >
+            <Text
+              style={[
+                styles.label,
+                option.mode === mode ? styles.labelSelected : styles.labelUnselected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {shape?.kind === 'weeks' && (
+        <>
+          <Stepper
+            label="WEEKS"
+            value={shape.weeks.length}
+            min={2}
+            max={ROTATION_LIMITS.maxWeeks}
+            onChange={handleChangeWeekCount}
+          />
+          {shape.weeks.map((days, week) => (
+            <View key={week} style={styles.week}>
+              <Text style={styles.rowLabel}>WEEK {week + 1}</Text>
+              <DaySelector enabledDays={days} onToggle={(index) => handleToggleDay(week, index)} />
+            </View>
+          ))}
+        </>
+      )}
+
+      {shape?.kind === 'on-off' && (
+        <View style={styles.steppers}>
+          <Stepper
+            label="ON"
+            value={shape.on}
+            min={1}
+            max={ROTATION_LIMITS.maxRunDays}
+            onChange={(on) => onChange(buildOnOffRotation(start, on, shape.off))}
+            formatValue={(days) => `${days}d`}
+          />
+          <Stepper
+            label="OFF"
+            value={shape.off}
+            min={1}
+            max={ROTATION_LIMITS.maxRunDays}
+            onChange={(off) => onChange(buildOnOffRotation(start, shape.on, off))}
+            formatValue={(days) => `${days}d`}
+          />
+        </View>
+      )}
+
+      {rotation && (
+        <>
+          <View style={styles.stepper}>
+            <Text style={styles.rowLabel}>STARTS</Text>
+            <TouchableOpacity
+              activeOpacity={0.7}
+              disabled={!canStepBack}
+              onPress={() => handleChangeStart(addDays(start, -step))}
+            >
+              <Text style={[styles.arrow, !canStepBack && styles.arrowDisabled]}>‹</Text>
+            </TouchableOpacity>
+            <Text style={styles.dateText}>{formatShortDate(start)}</Text>
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => handleChangeStart(addDays(start, step))}
+            >
+              <Text style={styles.arrow}>›</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.preview}>{formatRotation(rotation)}</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  rowLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+  },
+  label: {
+    fontSize: 13,
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+  labelSelected: {
+    color: '#E8E8E3',
+    fontWeight: '600',
+  },
+  labelUnselected: {
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  week: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  steppers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    columnGap: 32,
+    rowGap: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  arrow: {
+    fontSize: 28,
+    color: '#E8E8E3',
+    paddingHorizontal: 8,
+  },
+  arrowDisabled: {
+    color: '#3A3A42',
+  },
+  dateText: {
+    fontSize: 15,
+    color: '#9999A1',
+    minWidth: 96,
+    textAlign: 'center',
+  },
+  preview: {
+    fontSize: 11,
+    letterSpacing: 1,
+    color: '#9999A1',
+  },
+});
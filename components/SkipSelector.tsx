@@ -0,0 +1,152 @@
+// ─── Skip Selector ────────────────────────────────────────────────────────────
+// Exception dates for a weekly alarm: NEXT skips the next occurrence that
+// would ring, NEXT WEEK skips every occurrence in the coming Mon–Sun week
+// (tap again to un-skip it). Upcoming skipped dates are listed below;
+// tapping one rings on that day again.
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  formatShortDate,
+  getCivilDate,
+  getNextOccurrence,
+  getNextWeekDates,
+  getUpcomingSkipDates,
+  parseISODate,
+  toISODate,
+} from '../lib/recurrence';
+import type { Alarm } from '../lib/types';
+
+// ─── Props ───────────────────────────────────────────────────────────
+interface SkipSelectorProps {
+  /** The alarm as currently edited — its days, time and skip dates */
+  alarm: Alarm;
+  onChange: (skipDates: string[]) => void;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function withDates(skipDates: string[], dates: string[]): string[] {
+  return Array.from(new Set([...skipDates, ...dates])).sort();
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export function SkipSelector({ alarm, onChange }: SkipSelectorProps) {
+  const now = Date.now();
+  const upcoming = getUpcomingSkipDates(alarm, { from: now });
+  const nextRing = getNextOccurrence(alarm, { from: now });
+  const nextWeek = getNextWeekDates(alarm, { from: now });
+  const nextWeekSkipped = nextWeek.length > 0 && nextWeek.every((d) => upcoming.includes(d));
+
+  const handleSkipNext = () => {
+    if (nextRing === null) return;
+    onChange(withDates(upcoming, [toISODate(getCivilDate(nextRing))]));
+  };
+
+  const handleSkipNextWeek = () => {
+    onChange(
+      nextWeekSkipped
+        ? upcoming.filter((d) => !nextWeek.includes(d))
+        : withDates(upcoming, nextWeek),
+    );
+  };
+
+  const handleUnskip = (date: string) => {
+    onChange(upcoming.filter((d) => d !== date));
+  };
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.container}>
+        <TouchableOpacity activeOpacity={0.7} disabled={nextRing === null} onPress={handleSkipNext}>
+          <Text style={[styles.label, styles.labelUnselected]}>NEXT</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          activeOpacity={0.7}
+          disabled={nextWeek.length === 0}
+          onPress={handleSkipNextWeek}
+        >
+          <Text
+            style={[
+              styles.label,
+              nextWeekSkipped ? styles.labelSelected : styles.labelUnselected,
+            ]}
+          >
+            NEXT WEEK
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {upcoming.length === 0 ? (
+        <Text style={styles.hint}>Rings on every selected day</Text>
+      ) : (
+        <View style={styles.dates}>
+          {upcoming.map((value) => {
+            const date = parseISODate(value);
+            if (!date) return null;
+            return (
+              <TouchableOpacity
+                key={value}
+                style={styles.dateChip}
+                activeOpacity={0.7}
+                onPress={() => handleUnskip(value)}
+              >
+                <Text style={styles.dateChipText}>{formatShortDate(date)} ×</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 24,
+  },
+  label: {
+    fontSize: 13,
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+  },
+  labelSelected: {
+    color: '#E8E8E3',
+    fontWeight: '600',
+  },
+  labelUnselected: {
+    color: '#5A5A63',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#3A3A42',
+  },
+  dates: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  dateChip: {
+    backgroundColor: '#131316',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  dateChipText: {
+    fontSize: 13,
+    color: '#9999A1',
+  },
+});
@@ -0,0 +1,74 @@
+// ─── Stepper ──────────────────────────────────────────────────────────────────
+// Labelled ‹ value › control for small bounded integers, used by the
+// challenge and re-trigger settings in the alarm editor.
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+// ─── Props ───────────────────────────────────────────────────────────
+interface StepperProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  /** Text shown instead of the number, e.g. "OFF" for 0 */
+  formatValue?: (value: number) => string;
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export function Stepper({ label, value, min, max, onChange, formatValue }: StepperProps) {
+  const canDecrement = value > min;
+  const canIncrement = value < max;
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <TouchableOpacity
+        activeOpacity={0.7}
+        disabled={!canDecrement}
+        onPress={() => onChange(value - 1)}
+      >
+        <Text style={[styles.arrow, !canDecrement && styles.arrowDisabled]}>‹</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{formatValue ? formatValue(value) : value}</Text>
+      <TouchableOpacity
+        activeOpacity={0.7}
+        disabled={!canIncrement}
+        onPress={() => onChange(value + 1)}
+      >
+        <Text style={[styles.arrow, !canIncrement && styles.arrowDisabled]}>›</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#5A5A63',
+  },
+  stepperValue: {
+    fontSize: 15,
+    color: '#E8E8E3',
+    minWidth: 16,
+    textAlign: 'center',
+  },
+  arrow: {
+    fontSize: 24,
+    color: '#E8E8E3',
+    paddingHorizontal: 6,
+  },
+  arrowDisabled: {
+    color: '#3A3A42',
+  },
+});
@@ -10,7 +10,10 @@ import {
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { getRandomProblem } from '../../lib/code-problems';
+import { Colors } from '../../lib/constants';
 import type { CodeProblem } from '../../lib/code-problems';
+import type { ChallengeProps } from '../../lib/types';
+import type { ChallengeDefinition } from './registry';
 
 // ─── Syntax Highlighting ────────────────────────────────────────────────
 // Lightweight regex-based tokenizer — no external syntax highlighting library.
@@ -112,9 +115,7 @@ function highlightLine(line: string): HighlightToken[] {
 
 // ─── Props ──────────────────────────────────────────────────────────────
 
-interface CodeChallengeProps {
-  onComplete: () => void;
-}
+type CodeChallengeProps = ChallengeProps;
 
 // ─── Option Prefixes ────────────────────────────────────────────────────
 
@@ -122,9 +123,15 @@ const OPTION_PREFIXES = ['A)', 'B)', 'C)', 'D)'] as const;
 
 // ─── Component ──────────────────────────────────────────────────────────
 
-export function CodeChallenge({ onComplete }: CodeChallengeProps) {
-  const [problem, setProblem] = useState<CodeProblem>(() => getRandomProblem());
+export function CodeChallenge({
+  onComplete,
+  onWrongAttempt,
+  difficulty,
+  rounds,
+}: CodeChallengeProps) {
+  const [problem, setProblem] = useState<CodeProblem>(() => getRandomProblem([], difficulty));
   const [isFlashing, setIsFlashing] = useState(false);
+  const [roundsDone, setRoundsDone] = useState(0);
 
   const usedIdsRef = useRef<string[]>([]);
   const flashOpacity = useRef(new Animated.Value(0)).current;
@@ -139,11 +146,20 @@ export function CodeChallenge({ onComplete }: CodeChallengeProps) {
 
       if (selectedIndex === problem.correctIndex) {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-        onComplete();
+        const done = roundsDone + 1;
+        if (done >= rounds) {
+          onComplete();
+          return;
+        }
+        // More rounds to go: move on to a problem we haven't shown yet
+        setRoundsDone(done);
+        usedIdsRef.current.push(problem.id);
+        setProblem(getRandomProblem(usedIdsRef.current, difficulty));
         return;
       }
 
       // Wrong answer
+      onWrongAttempt?.();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
 
       // Flash screen white
@@ -159,10 +175,10 @@ export function CodeChallenge({ onComplete }: CodeChallengeProps) {
 
       // Track used problem and load a new one
       usedIdsRef.current.push(problem.id);
-      const nextProblem = getRandomProblem(usedIdsRef.current);
+      const nextProblem = getRandomProblem(usedIdsRef.current, difficulty);
       setProblem(nextProblem);
     },
-    [problem, isFlashing, flashOpacity, onComplete],
+    [problem, isFlashing, flashOpacity, onComplete, onWrongAttempt, roundsDone, rounds, difficulty],
   );
 
   // ─── Render ─────────────────────────────────────────────────────────
@@ -199,7 +215,9 @@ export function CodeChallenge({ onComplete }: CodeChallengeProps) {
         </View>
 
         {/* Question */}
-        <Text style={styles.questionText}>What is the output?</Text>
+        <Text style={styles.questionText}>
+          {rounds > 1 ? `What is the output?  ${roundsDone + 1}/${rounds}` : 'What is the output?'}
+        </Text>
 
         {/* Answer grid: 2x2 */}
         <View style={styles.answerGrid}>
@@ -233,6 +251,19 @@ export function CodeChallenge({ onComplete }: CodeChallengeProps) {
   );
 }
 
+// ─── Definition ──────────────────────────────────────────────────────────────
+
+export const codeChallenge: ChallengeDefinition<'code'> = {
+  id: 'code',
+  label: 'Code',
+  icon: 'code-slash',
+  color: Colors.codeAccent,
+  description: 'Answer DSA questions',
+  component: CodeChallenge,
+  difficultyRange: { min: 1, max: 5 },
+  configSchema: [],
+};
+
 // ─── Styles ──────────────────────────────────────────────────────────────
 
 const MONO_FONT = Platform.select({
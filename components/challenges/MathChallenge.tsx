@@ -14,18 +14,17 @@ import {
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { generateMathProblem, checkAnswer } from '../../lib/math-generator';
+import { Colors } from '../../lib/constants';
 import type { MathProblem } from '../../lib/math-generator';
+import type { ChallengeProps } from '../../lib/types';
+import type { ChallengeDefinition } from './registry';
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
-interface MathChallengeProps {
-  onComplete: () => void;
-}
+type MathChallengeProps = ChallengeProps;
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-const DIFFICULTY = 3;
-
 const MONO_FONT = Platform.select({
   ios: 'Menlo',
   default: 'monospace',
@@ -33,11 +32,17 @@ const MONO_FONT = Platform.select({
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
-export function MathChallenge({ onComplete }: MathChallengeProps) {
+export function MathChallenge({
+  onComplete,
+  onWrongAttempt,
+  difficulty,
+  rounds,
+}: MathChallengeProps) {
   const [currentProblem, setCurrentProblem] = useState<MathProblem>(() =>
-    generateMathProblem(DIFFICULTY)
+    generateMathProblem(difficulty)
   );
   const [userInput, setUserInput] = useState<string>('');
+  const [roundsDone, setRoundsDone] = useState<number>(0);
   const inputRef = useRef<TextInput>(null);
 
   // Animated overlay for wrong-answer flash
@@ -53,14 +58,14 @@ export function MathChallenge({ onComplete }: MathChallengeProps) {
 
   // Generate a fresh problem (guaranteed different from current)
   const generateNewProblem = useCallback(() => {
-    let next = generateMathProblem(DIFFICULTY);
+    let next = generateMathProblem(difficulty);
     let attempts = 0;
     while (next.question === currentProblem.question && attempts < 10) {
-      next = generateMathProblem(DIFFICULTY);
+      next = generateMathProblem(difficulty);
       attempts++;
     }
     return next;
-  }, [currentProblem.question]);
+  }, [currentProblem.question, difficulty]);
 
   const handleSubmit = useCallback(() => {
     if (userInput.length === 0) return;
@@ -68,9 +73,20 @@ export function MathChallenge({ onComplete }: MathChallengeProps) {
     const parsed = parseInt(userInput, 10);
 
     if (checkAnswer(currentProblem, parsed)) {
-      onComplete();
+      const done = roundsDone + 1;
+      if (done >= rounds) {
+        onComplete();
+        return;
+      }
+      // More rounds to go: next problem
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      setRoundsDone(done);
+      setCurrentProblem(generateNewProblem());
+      setUserInput('');
+      setTimeout(() => inputRef.current?.focus(), 100);
     } else {
       // Wrong answer: flash, haptic, clear, new problem
+      onWrongAttempt?.();
       Animated.sequence([
         Animated.timing(flashOpacity, {
           toValue: 1,
@@ -91,7 +107,7 @@ export function MathChallenge({ onComplete }: MathChallengeProps) {
       // Re-focus input after clearing
       setTimeout(() => inputRef.current?.focus(), 100);
     }
-  }, [userInput, currentProblem, onComplete, flashOpacity, generateNewProblem]);
+  }, [userInput, currentProblem, roundsDone, rounds, onComplete, onWrongAttempt, flashOpacity, generateNewProblem]);
 
   // ─── Main render ──────────────────────────────────────────────────────
 
@@ -103,7 +119,9 @@ export function MathChallenge({ onComplete }: MathChallengeProps) {
     >
       {/* Problem display */}
       <View style={styles.problemContainer}>
-        <Text style={styles.problemLabel}>SOLVE</Text>
+        <Text style={styles.problemLabel}>
+          {rounds > 1 ? `SOLVE  ${roundsDone + 1}/${rounds}` : 'SOLVE'}
+        </Text>
         <Text style={styles.problemText}>{currentProblem.display}</Text>
       </View>
 
@@ -134,6 +152,19 @@ export function MathChallenge({ onComplete }: MathChallengeProps) {
   );
 }
 
+// ─── Definition ──────────────────────────────────────────────────────────────
+
+export const mathChallenge: ChallengeDefinition<'math'> = {
+  id: 'math',
+  label: 'Math',
+  icon: 'calculator',
+  color: Colors.mathAccent,
+  description: 'Solve calculus & algebra problems',
+  component: MathChallenge,
+  difficultyRange: { min: 1, max: 5 },
+  configSchema: [],
+};
+
 // ─── Styles ───────────────────────────────────────────────────────────────────
 
 const styles = StyleSheet.create({
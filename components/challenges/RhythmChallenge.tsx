@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
+  Text,
   Pressable,
   Animated,
   StyleSheet,
@@ -8,19 +9,21 @@ import {
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { generateBeatmap } from '../../lib/rhythm-generator';
-import type { Beatmap, HitResult } from '../../lib/types';
+import { Colors } from '../../lib/constants';
+import type { Beatmap, ChallengeProps, HitResult } from '../../lib/types';
+import type { ChallengeDefinition } from './registry';
 
 // ─── Constants ──────────────────────────────────────────────────────────
 
 const CIRCLE_SIZE = 72;
 const APPROACH_RING_SIZE = 144;
-const REQUIRED_CONSECUTIVE = 5; // Must land 5 in a row to dismiss the alarm
+const DEFAULT_STREAK = 5; // Must land 5 in a row to finish a round by default
+const MIN_STREAK = 3;
+const MAX_STREAK = 10;
 const PERFECT_WINDOW_MS = 50;   // ±50ms from beat center = "perfect"
 const GOOD_WINDOW_MS = 120;     // ±120ms = "good"; anything beyond is a miss
 const ADVANCE_DELAY_MS = 300;
-const DIFFICULTY = 3;
 
-const DOT_COUNT = 5;
 const DOT_SIZE = 12;
 
 const COLOR_PERFECT = '#00E676';
@@ -31,16 +34,23 @@ const DOT_EMPTY = '#990F00';
 
 // ─── Props ──────────────────────────────────────────────────────────────
 
-interface RhythmChallengeProps {
-  onComplete: () => void;
-}
+type RhythmChallengeProps = ChallengeProps;
 
 // ─── Component ──────────────────────────────────────────────────────────
 
-export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
-  const [beatmap, setBeatmap] = useState<Beatmap>(() => generateBeatmap(DIFFICULTY));
+export function RhythmChallenge({
+  onComplete,
+  onWrongAttempt,
+  difficulty,
+  rounds,
+  options,
+}: RhythmChallengeProps) {
+  const requiredConsecutive = options.streak ?? DEFAULT_STREAK;
+
+  const [beatmap, setBeatmap] = useState<Beatmap>(() => generateBeatmap(difficulty));
   const [currentIndex, setCurrentIndex] = useState(0);
   const [consecutiveHits, setConsecutiveHits] = useState(0);
+  const [roundsDone, setRoundsDone] = useState(0);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
   const [hitFlash, setHitFlash] = useState<HitResult | null>(null);
   const [isMissAnimating, setIsMissAnimating] = useState(false);
@@ -107,20 +117,21 @@ export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
         const next = prev + 1;
         if (next >= beatmap.targets.length) {
           // Ran out of targets without completing — generate new beatmap
-          const newBeatmap = generateBeatmap(DIFFICULTY);
+          const newBeatmap = generateBeatmap(difficulty);
           setBeatmap(newBeatmap);
           return 0;
         }
         return next;
       });
     }, ADVANCE_DELAY_MS);
-  }, [beatmap.targets.length]);
+  }, [beatmap.targets.length, difficulty]);
 
   // ─── Handle a miss ─────────────────────────────────────────────────
 
   const handleMiss = useCallback(() => {
     approachScale.stopAnimation();
     setIsMissAnimating(true);
+    onWrongAttempt?.();
 
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
 
@@ -139,11 +150,11 @@ export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
     ]).start(() => {
       // Reset consecutive hits and generate new beatmap
       setConsecutiveHits(0);
-      const newBeatmap = generateBeatmap(DIFFICULTY);
+      const newBeatmap = generateBeatmap(difficulty);
       setBeatmap(newBeatmap);
       setCurrentIndex(0);
     });
-  }, [approachScale, circleTranslateY, circleOpacity]);
+  }, [approachScale, circleTranslateY, circleOpacity, difficulty, onWrongAttempt]);
 
   // ─── Handle tap on circle ──────────────────────────────────────────
 
@@ -192,16 +203,30 @@ export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
       useNativeDriver: true,
     }).start();
 
-    // Win condition: REQUIRED_CONSECUTIVE hits without a miss
+    // Round condition: requiredConsecutive hits without a miss
     const newConsecutive = consecutiveHits + 1;
     setConsecutiveHits(newConsecutive);
 
-    if (newConsecutive >= REQUIRED_CONSECUTIVE) {
-      completedRef.current = true;
-      // Brief delay so the user sees the final dot fill
+    if (newConsecutive >= requiredConsecutive) {
+      const done = roundsDone + 1;
+      if (done >= rounds) {
+        completedRef.current = true;
+        // Brief delay so the user sees the final dot fill
+        setTimeout(() => {
+          onComplete();
+        }, 200);
+        return;
+      }
+
+      // Round finished but more to go: fresh beatmap, streak starts over
+      setRoundsDone(done);
+      setIsAdvancing(true);
       setTimeout(() => {
-        onComplete();
-      }, 200);
+        setIsAdvancing(false);
+        setConsecutiveHits(0);
+        setBeatmap(generateBeatmap(difficulty));
+        setCurrentIndex(0);
+      }, ADVANCE_DELAY_MS);
       return;
     }
 
@@ -212,6 +237,10 @@ export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
     approachScale,
     flashOpacity,
     consecutiveHits,
+    requiredConsecutive,
+    roundsDone,
+    rounds,
+    difficulty,
     onComplete,
     advanceTarget,
     handleMiss,
@@ -240,9 +269,14 @@ export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
 
   return (
     <View style={styles.container}>
+      {/* Round counter (multi-round only) */}
+      {rounds > 1 && (
+        <Text style={styles.roundText}>{`ROUND ${roundsDone + 1}/${rounds}`}</Text>
+      )}
+
       {/* Progress dots */}
       <View style={styles.dotsRow}>
-        {Array.from({ length: DOT_COUNT }).map((_, i) => (
+        {Array.from({ length: requiredConsecutive }).map((_, i) => (
           <View
             key={i}
             style={[
@@ -308,12 +342,41 @@ export function RhythmChallenge({ onComplete }: RhythmChallengeProps) {
   );
 }
 
+// ─── Definition ──────────────────────────────────────────────────────────────
+
+export const rhythmChallenge: ChallengeDefinition<'rhythm'> = {
+  id: 'rhythm',
+  label: 'Rhythm',
+  icon: 'musical-notes',
+  color: Colors.rhythmAccent,
+  description: 'Hit the beats in time',
+  component: RhythmChallenge,
+  difficultyRange: { min: 1, max: 5 },
+  configSchema: [
+    {
+      key: 'streak',
+      label: 'STREAK',
+      min: MIN_STREAK,
+      max: MAX_STREAK,
+      default: DEFAULT_STREAK,
+    },
+  ],
+};
+
 // ─── Styles ──────────────────────────────────────────────────────────────
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  roundText: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 3,
+    color: 'rgba(255,255,255,0.5)',
+    textAlign: 'center',
+    paddingTop: 8,
+  },
   dotsRow: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -0,0 +1,107 @@
+// ─── Challenge Registry ───────────────────────────────────────────────────────
+// Single source of truth for challenge types. Each challenge module exports a
+// ChallengeDefinition (ID, display metadata, component, difficulty range and
+// option schema); adding a challenge means writing that definition and
+// listing it in CHALLENGE_REGISTRY. The selector, firing screen and stats
+// all read from here.
+
+import type { ComponentType } from 'react';
+import type { ChallengeConfig, ChallengeProps, ChallengeType } from '../../lib/types';
+import { mathChallenge } from './MathChallenge';
+import { rhythmChallenge } from './RhythmChallenge';
+import { codeChallenge } from './CodeChallenge';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A numeric option a challenge exposes in the edit screen */
+export interface ChallengeOptionSchema {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+}
+
+/** Everything the app needs to know about one challenge type */
+export interface ChallengeDefinition<Id extends string = ChallengeType> {
+  id: Id;
+  label: string;
+  icon: string;
+  color: string;
+  description: string;
+  component: ComponentType<ChallengeProps>;
+  /** Difficulty levels the challenge supports; config values are clamped into it */
+  difficultyRange: { min: number; max: number };
+  configSchema: ChallengeOptionSchema[];
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** Every available challenge, in display order */
+export const CHALLENGE_REGISTRY = [rhythmChallenge, mathChallenge, codeChallenge] as const;
+
+/** Look up a challenge by ID. Returns undefined for unknown IDs. */
+export function getChallenge(id: string): ChallengeDefinition | undefined {
+  return CHALLENGE_REGISTRY.find((c) => c.id === id);
+}
+
+/** Whether a stored ID names a registered challenge. */
+export function isChallengeType(id: unknown): id is ChallengeType {
+  return typeof id === 'string' && getChallenge(id) !== undefined;
+}
+
+/**
+ * Challenges an alarm may pick from. 'random' means every registered
+ * challenge; IDs that are no longer registered are ignored, and if none
+ * remain the whole registry is used.
+ */
+export function getAllowedChallenges(config: ChallengeConfig): ChallengeDefinition[] {
+  if (config.types === 'random') return [...CHALLENGE_REGISTRY];
+  const allowed = config.types
+    .map(getChallenge)
+    .filter((c): c is ChallengeDefinition => c !== undefined);
+  return allowed.length > 0 ? allowed : [...CHALLENGE_REGISTRY];
+}
+
+/**
+ * Turn an alarm's chain into the concrete challenges to run, in order.
+ * 'random' stages (and stages naming an unregistered challenge) pick from
+ * the allowed challenges; an empty chain is treated as one random stage.
+ */
+export function resolveChallengeChain(config: ChallengeConfig): ChallengeDefinition[] {
+  const allowed = getAllowedChallenges(config);
+  const stages = config.chain.length > 0 ? config.chain : ['random'];
+  return stages.map((stage) => {
+    const fixed = stage !== 'random' ? getChallenge(stage) : undefined;
+    return fixed ?? allowed[Math.floor(Math.random() * allowed.length)];
+  });
+}
+
+/**
+ * Look up a previously resolved chain by ID, e.g. when resuming a firing
+ * session. Returns null if any stage is no longer registered.
+ */
+export function restoreChallengeChain(ids: ChallengeType[]): ChallengeDefinition[] | null {
+  const chain = ids.flatMap((id) => getChallenge(id) ?? []);
+  return chain.length > 0 && chain.length === ids.length ? chain : null;
+}
+
+/** Build the props a challenge component receives from an alarm's config. */
+export function resolveChallengeProps(
+  challenge: ChallengeDefinition,
+  config: ChallengeConfig,
+): Omit<ChallengeProps, 'onComplete'> {
+  const { min, max } = challenge.difficultyRange;
+  const stored = config.options?.[challenge.id] ?? {};
+  const options: Record<string, number> = {};
+  for (const option of challenge.configSchema) {
+    const value = stored[option.key];
+    options[option.key] =
+      typeof value === 'number' ? Math.max(option.min, Math.min(option.max, value)) : option.default;
+  }
+  return {
+    difficulty: Math.max(min, Math.min(max, config.difficulty)),
+    rounds: config.rounds,
+    options,
+  };
+}
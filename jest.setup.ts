@@ -0,0 +1,22 @@
+// ─── Jest Setup ──────────────────────────────────────────────────────
+// Runs before each test file. Tests use the device time zone the way the
+// app does, so it's pinned here; recurrence tests that need DST pass their
+// own zone. AsyncStorage gets its in-memory mock.
+
+process.env.TZ = 'UTC';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// The AlarmKit module is native-only. Reporting it available keeps the
+// default backend from starting expo-notifications; tests that schedule
+// install SimulatedAlarmBackend instead
+jest.mock('./modules/alarm-kit', () => ({
+  isAlarmKitAvailable: () => true,
+  getSystemVolume: () => 1,
+}));
+
+// Nothing under test uses the notification backend; loading the real
+// module registers push-token listeners and warns about Expo Go
+jest.mock('expo-notifications', () => ({}));
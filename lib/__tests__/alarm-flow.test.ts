@@ -0,0 +1,165 @@
+import {
+  disarmPassedAlarms,
+  resumeIfPauseEnded,
+  useAlarmStore,
+  waitForHydration,
+} from '../alarm-store';
+import { initializeScheduler, whenSchedulingSettled } from '../alarm-scheduler';
+import { checkAlarmLaunch, resumeFiringSession } from '../alarm-launch';
+import { setAlarmBackend } from '../alarm-backend';
+import { VirtualClock, setClock } from '../clock';
+import { SimulatedAlarmBackend } from '../simulated-backend';
+import { IDLE_SESSION, SESSION_RESUME_WINDOW_MS } from '../firing-session';
+import { DEFAULT_CHALLENGE_CONFIG, DEFAULT_RETRIGGER_POLICY } from '../constants';
+import type { Alarm } from '../types';
+
+// The whole path an alarm takes, through the store: schedule → fire on the
+// lock screen → launch the app → dismiss in the app
+
+const WEEKDAYS = [true, true, true, true, true, false, false];
+const MINUTE = 60 * 1000;
+
+/** Monday 2026-03-02, an hour before a 07:00 alarm (tests run in UTC) */
+const START = Date.UTC(2026, 2, 2, 6, 0);
+const FIRST_RING = Date.UTC(2026, 2, 2, 7, 0);
+
+let clock: VirtualClock;
+let backend: SimulatedAlarmBackend;
+
+function newAlarm(overrides: Partial<Alarm> = {}): Omit<Alarm, 'id'> {
+  return {
+    time: { hour: 7, minute: 0 },
+    enabledDays: WEEKDAYS,
+    soundChoice: 'SIREN',
+    challenge: { ...DEFAULT_CHALLENGE_CONFIG },
+    retrigger: { ...DEFAULT_RETRIGGER_POLICY },
+    isArmed: true,
+    ...overrides,
+  };
+}
+
+function dismiss(): void {
+  const store = useAlarmStore.getState();
+  store.startChallenge(['math']);
+  store.completeDismiss();
+  store.endSession();
+}
+
+function fixedTimes(): number[] {
+  return backend
+    .getScheduledAlarms()
+    .flatMap((a) => (a.schedule.kind === 'fixed' ? [a.schedule.timestamp] : []));
+}
+
+beforeAll(async () => {
+  await Promise.all([initializeScheduler(), waitForHydration()]);
+});
+
+beforeEach(async () => {
+  clock = new VirtualClock(START);
+  setClock(clock);
+  backend = new SimulatedAlarmBackend(clock);
+  setAlarmBackend(backend);
+  useAlarmStore.setState({
+    alarms: [],
+    history: [],
+    session: { ...IDLE_SESSION },
+    pausedUntil: null,
+  });
+  await whenSchedulingSettled();
+});
+
+it('rings, launches the app and dismisses the occurrence that rang', async () => {
+  const id = useAlarmStore.getState().addAlarm(newAlarm());
+  await whenSchedulingSettled(id);
+  expect(backend.getScheduledAlarms()).toHaveLength(31);
+
+  // The main alarm and the first re-trigger ring before the app is opened
+  clock.set(FIRST_RING + 3 * MINUTE);
+  expect(backend.firings.map((f) => f.firedAt)).toEqual([FIRST_RING, FIRST_RING + 2 * MINUTE]);
+  expect(checkAlarmLaunch()).toBe(true);
+  expect(useAlarmStore.getState().session).toMatchObject({ phase: 'ringing', alarmId: id });
+
+  // Dismissed before the second re-trigger
+  clock.advance(MINUTE / 2);
+  dismiss();
+  expect(useAlarmStore.getState().history).toEqual([
+    expect.objectContaining({
+      alarmId: id,
+      scheduledAt: FIRST_RING,
+      firedAt: FIRST_RING + 3 * MINUTE,
+      retriggersRung: 1,
+    }),
+  ]);
+
+  // Today's remaining re-triggers are cancelled; tomorrow's stay
+  await whenSchedulingSettled(id);
+  const times = fixedTimes();
+  expect(times.filter((t) => t < Date.UTC(2026, 2, 3))).toEqual([]);
+  expect(times).toContain(Date.UTC(2026, 2, 3, 7, 2));
+  expect(useAlarmStore.getState().alarms[0].isArmed).toBe(true);
+
+  // The launch was consumed
+  expect(checkAlarmLaunch()).toBe(false);
+});
+
+it('picks up a session left ringing when the app was killed, unless it is stale', async () => {
+  const id = useAlarmStore.getState().addAlarm(newAlarm());
+  await whenSchedulingSettled(id);
+  clock.set(FIRST_RING);
+  checkAlarmLaunch();
+
+  // The next cold start reopens the firing screen for it
+  clock.advance(10 * MINUTE);
+  expect(resumeFiringSession()).toBe(true);
+  expect(useAlarmStore.getState().session).toMatchObject({ phase: 'ringing', alarmId: id });
+
+  clock.set(FIRST_RING + SESSION_RESUME_WINDOW_MS);
+  expect(resumeFiringSession()).toBe(false);
+  expect(useAlarmStore.getState().session.phase).toBe('idle');
+});
+
+it('disarms a one-time alarm once it is dismissed', async () => {
+  const id = useAlarmStore.getState().addAlarm(newAlarm({ date: '2026-03-02' }));
+  await whenSchedulingSettled(id);
+
+  clock.set(FIRST_RING);
+  expect(checkAlarmLaunch()).toBe(true);
+  dismiss();
+  await whenSchedulingSettled(id);
+
+  expect(useAlarmStore.getState().alarms[0].isArmed).toBe(false);
+  expect(backend.getScheduledAlarms()).toEqual([]);
+});
+
+it('disarms a one-time alarm stopped on the lock screen once its re-triggers are over', async () => {
+  const id = useAlarmStore.getState().addAlarm(newAlarm({ date: '2026-03-02' }));
+  await whenSchedulingSettled(id);
+
+  // Still re-triggering: left armed
+  clock.set(FIRST_RING + 10 * MINUTE);
+  disarmPassedAlarms();
+  expect(useAlarmStore.getState().alarms[0].isArmed).toBe(true);
+
+  clock.set(FIRST_RING + 30 * MINUTE);
+  disarmPassedAlarms();
+  await whenSchedulingSettled(id);
+  expect(useAlarmStore.getState().alarms[0].isArmed).toBe(false);
+  expect(useAlarmStore.getState().scheduleStatus[id]).toBeUndefined();
+});
+
+it('stays silent through a vacation pause and comes back once the app is opened after it', async () => {
+  const id = useAlarmStore.getState().addAlarm(newAlarm());
+  useAlarmStore.getState().pauseAlarms('2026-03-03');
+  await whenSchedulingSettled();
+  expect(backend.getScheduledAlarms()).toEqual([]);
+
+  // Nothing rings until the app is opened after the last paused day
+  clock.set(Date.UTC(2026, 2, 4, 7, 30));
+  expect(backend.firings).toEqual([]);
+
+  resumeIfPauseEnded();
+  await whenSchedulingSettled(id);
+  expect(useAlarmStore.getState().pausedUntil).toBeNull();
+  expect(backend.getScheduledAlarms().length).toBeGreaterThan(0);
+});
@@ -0,0 +1,273 @@
+import {
+  getRingingSound,
+  initializeScheduler,
+  reconcileAlarm,
+  reconcileScheduledAlarms,
+  setDesiredStateSource,
+  setScheduleResultListener,
+} from '../alarm-scheduler';
+import type { DesiredAlarmState } from '../alarm-scheduler';
+import { setAlarmBackend } from '../alarm-backend';
+import type { ScheduleResult } from '../alarm-backend';
+import { VirtualClock, setClock } from '../clock';
+import { SimulatedAlarmBackend } from '../simulated-backend';
+import {
+  DEFAULT_CHALLENGE_CONFIG,
+  DEFAULT_RETRIGGER_POLICY,
+  OPEN_APP_REMINDER,
+} from '../constants';
+import type { Alarm } from '../types';
+
+const WEEKDAYS = [true, true, true, true, true, false, false];
+/** AlarmKit weekday numbers (1=Sun) for Mon–Fri */
+const ALARMKIT_WEEKDAYS = [2, 3, 4, 5, 6];
+
+/** Monday 2026-03-02, an hour before a 07:00 alarm (tests run in UTC) */
+const START = Date.UTC(2026, 2, 2, 6, 0);
+
+function makeAlarm(id: string, overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id,
+    time: { hour: 7, minute: 0 },
+    enabledDays: WEEKDAYS,
+    soundChoice: 'SIREN',
+    challenge: { ...DEFAULT_CHALLENGE_CONFIG },
+    retrigger: { ...DEFAULT_RETRIGGER_POLICY },
+    isArmed: true,
+    ...overrides,
+  };
+}
+
+/** Simulated backend whose alarm list can be made unreadable */
+class FlakyBackend extends SimulatedAlarmBackend {
+  failList = false;
+
+  async listScheduledAlarms(): Promise<string[]> {
+    if (this.failList) throw new Error('list failed');
+    return super.listScheduledAlarms();
+  }
+}
+
+let clock: VirtualClock;
+let backend: FlakyBackend;
+let desired: DesiredAlarmState;
+const results = new Map<string, ScheduleResult | null>();
+
+function setAlarms(...alarms: Alarm[]): void {
+  desired = { ...desired, alarms };
+}
+
+function fixedTimes(): number[] {
+  return backend
+    .getScheduledAlarms()
+    .flatMap((a) => (a.schedule.kind === 'fixed' ? [a.schedule.timestamp] : []));
+}
+
+beforeAll(async () => {
+  setDesiredStateSource(() => desired);
+  setScheduleResultListener((alarmId, result) => results.set(alarmId, result));
+  await initializeScheduler();
+});
+
+beforeEach(() => {
+  clock = new VirtualClock(START);
+  setClock(clock);
+  backend = new FlakyBackend(clock);
+  setAlarmBackend(backend);
+  desired = { alarms: [], dismissedThrough: {}, paused: false };
+  results.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('reconcileAlarm', () => {
+  it('schedules a weekly repeat and re-triggers for the next occurrences', async () => {
+    setAlarms(makeAlarm('weekly'));
+    await reconcileAlarm('weekly');
+
+    const scheduled = backend.getScheduledAlarms();
+    const recurring = scheduled.filter((a) => a.schedule.kind === 'recurring');
+    expect(recurring).toHaveLength(1);
+    expect(recurring[0].schedule).toEqual({
+      kind: 'recurring',
+      hour: 7,
+      minute: 0,
+      weekdays: ALARMKIT_WEEKDAYS,
+    });
+    // 10 re-triggers after each of Mon, Tue and Wed
+    expect(scheduled).toHaveLength(31);
+    expect(fixedTimes()[0]).toBe(Date.UTC(2026, 2, 2, 7, 2));
+    expect(results.get('weekly')).toEqual({ status: 'scheduled' });
+  });
+
+  it('leaves matching native alarms alone', async () => {
+    setAlarms(makeAlarm('stable'));
+    await reconcileAlarm('stable');
+    const before = backend.getScheduledAlarms().map((a) => a.id);
+
+    await reconcileAlarm('stable');
+    expect(backend.getScheduledAlarms().map((a) => a.id)).toEqual(before);
+  });
+
+  it('replaces native alarms when the alarm changes', async () => {
+    setAlarms(makeAlarm('edited'));
+    await reconcileAlarm('edited');
+
+    setAlarms(
+      makeAlarm('edited', {
+        time: { hour: 8, minute: 30 },
+        retrigger: { ...DEFAULT_RETRIGGER_POLICY, count: 0 },
+      }),
+    );
+    await reconcileAlarm('edited');
+
+    const scheduled = backend.getScheduledAlarms();
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].schedule).toMatchObject({ kind: 'recurring', hour: 8, minute: 30 });
+  });
+
+  it('cancels everything once the alarm is disarmed or deleted', async () => {
+    setAlarms(makeAlarm('gone'));
+    await reconcileAlarm('gone');
+
+    setAlarms(makeAlarm('gone', { isArmed: false }));
+    await reconcileAlarm('gone');
+    expect(backend.getScheduledAlarms()).toEqual([]);
+    expect(results.get('gone')).toBeNull();
+  });
+
+  it('reschedules native alarms removed outside the app', async () => {
+    setAlarms(makeAlarm('removed', { retrigger: { ...DEFAULT_RETRIGGER_POLICY, count: 0 } }));
+    await reconcileAlarm('removed');
+    await backend.cancelAllAlarms();
+
+    await reconcileAlarm('removed');
+    expect(backend.getScheduledAlarms()).toHaveLength(1);
+  });
+
+  it('keeps its records when the native list cannot be read', async () => {
+    setAlarms(makeAlarm('flaky'));
+    await reconcileAlarm('flaky');
+    const before = backend.getScheduledAlarms().map((a) => a.id);
+
+    backend.failList = true;
+    await reconcileAlarm('flaky');
+    expect(backend.getScheduledAlarms().map((a) => a.id)).toEqual(before);
+
+    // A change still replaces what was recorded instead of piling up
+    setAlarms(makeAlarm('flaky', { time: { hour: 9, minute: 0 } }));
+    await reconcileAlarm('flaky');
+    expect(backend.getScheduledAlarms()).toHaveLength(31);
+  });
+
+  it('reports an alarm with no repeat days as invalid', async () => {
+    setAlarms(makeAlarm('empty', { enabledDays: WEEKDAYS.map(() => false) }));
+    await reconcileAlarm('empty');
+    expect(results.get('empty')).toMatchObject({ status: 'invalid' });
+    expect(backend.getScheduledAlarms()).toEqual([]);
+  });
+
+  it('schedules nothing for a passed one-time alarm without reporting a failure', async () => {
+    setAlarms(makeAlarm('passed', { date: '2026-03-01' }));
+    await reconcileAlarm('passed');
+    expect(results.get('passed')).toBeNull();
+    expect(backend.getScheduledAlarms()).toEqual([]);
+  });
+
+  it('reports permission problems', async () => {
+    backend.authorizationStatus = 'denied';
+    setAlarms(makeAlarm('denied'));
+    await reconcileAlarm('denied');
+    expect(results.get('denied')).toEqual({ status: 'permission-denied' });
+  });
+
+  it('does not report permission problems when only re-triggers are missing', async () => {
+    setAlarms(makeAlarm('ringing'));
+    await reconcileAlarm('ringing');
+
+    clock.set(Date.UTC(2026, 2, 2, 8, 0));
+    backend.authorizationStatus = 'denied';
+    await reconcileAlarm('ringing');
+    expect(results.get('ringing')).toEqual({ status: 'scheduled' });
+  });
+});
+
+describe('skip dates', () => {
+  it('takes a skipped weekday off the weekly repeat and covers it with fixed alarms', async () => {
+    setAlarms(makeAlarm('skip', { skipDates: ['2026-03-04'] }));
+    await reconcileAlarm('skip');
+
+    const recurring = backend.getScheduledAlarms().filter((a) => a.schedule.kind === 'recurring');
+    expect(recurring.map((a) => a.schedule)).toEqual([
+      { kind: 'recurring', hour: 7, minute: 0, weekdays: [2, 3, 5, 6] },
+    ]);
+
+    // Nothing rings on the skipped day, re-triggers included
+    const times = fixedTimes();
+    expect(times.filter((t) => t >= Date.UTC(2026, 2, 4) && t < Date.UTC(2026, 2, 5))).toEqual([]);
+    // The next Wednesday keeps ringing, from a fixed alarm
+    expect(times).toContain(Date.UTC(2026, 2, 11, 7, 0));
+  });
+
+  it('flags the last fixed alarm, and puts the weekday back once the skip has passed', async () => {
+    setAlarms(makeAlarm('skip', { skipDates: ['2026-03-04'] }));
+    await reconcileAlarm('skip');
+
+    const flagged = () =>
+      backend.getScheduledAlarms().filter((a) => a.title.endsWith(OPEN_APP_REMINDER));
+    // Wednesdays ring from fixed alarms through two weeks past the skip
+    expect(flagged().map((a) => a.nextFireAt)).toEqual([Date.UTC(2026, 2, 18, 7, 0)]);
+
+    clock.set(Date.UTC(2026, 2, 5, 6, 0));
+    await reconcileAlarm('skip');
+    const recurring = backend.getScheduledAlarms().filter((a) => a.schedule.kind === 'recurring');
+    expect(recurring.map((a) => a.schedule)).toEqual([
+      { kind: 'recurring', hour: 7, minute: 0, weekdays: ALARMKIT_WEEKDAYS },
+    ]);
+    expect(flagged()).toEqual([]);
+  });
+});
+
+describe('vacation mode', () => {
+  it('cancels every native alarm while paused and brings them back after', async () => {
+    setAlarms(makeAlarm('paused'));
+    await reconcileAlarm('paused');
+
+    desired = { ...desired, paused: true };
+    await reconcileAlarm('paused');
+    expect(backend.getScheduledAlarms()).toEqual([]);
+    expect(results.get('paused')).toBeNull();
+
+    desired = { ...desired, paused: false };
+    await reconcileAlarm('paused');
+    expect(backend.getScheduledAlarms()).toHaveLength(31);
+  });
+});
+
+describe('reconcileScheduledAlarms', () => {
+  it('cancels native alarms nothing accounts for', async () => {
+    await backend.scheduleFixedAlarm('orphan', START + 60 * 60 * 1000, 'siren', 'WAKE UP');
+    setAlarms(makeAlarm('kept', { retrigger: { ...DEFAULT_RETRIGGER_POLICY, count: 0 } }));
+
+    await reconcileScheduledAlarms();
+    const ids = backend.getScheduledAlarms().map((a) => a.id);
+    expect(ids).not.toContain('orphan');
+    expect(ids).toHaveLength(1);
+  });
+});
+
+describe('getRingingSound', () => {
+  it('switches to the escalated sound from the escalation re-trigger on', () => {
+    const alarm = makeAlarm('loud', {
+      retrigger: { ...DEFAULT_RETRIGGER_POLICY, escalation: { from: 3, sound: 'HORN' } },
+    });
+    const occurrence = Date.UTC(2026, 2, 2, 7, 0);
+    const minute = 60 * 1000;
+    expect(getRingingSound(alarm, occurrence)).toBe('SIREN');
+    expect(getRingingSound(alarm, occurrence + 4 * minute)).toBe('SIREN');
+    expect(getRingingSound(alarm, occurrence + 6 * minute)).toBe('HORN');
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  applyImport,
+  buildExport,
+  parseImport,
+  previewImport,
+} from '../alarm-transfer';
+import { DEFAULT_CHALLENGE_CONFIG, DEFAULT_RETRIGGER_POLICY } from '../constants';
+import type { Alarm } from '../types';
+
+const WEEKDAYS = [true, true, true, true, true, false, false];
+
+function makeAlarm(id: string, overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id,
+    time: { hour: 7, minute: 0 },
+    enabledDays: WEEKDAYS,
+    soundChoice: 'SIREN',
+    challenge: { ...DEFAULT_CHALLENGE_CONFIG, options: {} },
+    retrigger: { ...DEFAULT_RETRIGGER_POLICY },
+    isArmed: true,
+    ...overrides,
+  };
+}
+
+function importOk(text: string) {
+  const parsed = parseImport(text);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return parsed;
+}
+
+describe('export and import', () => {
+  it('round-trips alarms', () => {
+    const alarms = [
+      makeAlarm('a1', { label: 'Gym', skipDates: ['2026-03-03'] }),
+      makeAlarm('a2', { date: '2026-04-01', retrigger: { ...DEFAULT_RETRIGGER_POLICY, count: 3 } }),
+    ];
+    const doc = buildExport(alarms, Date.UTC(2026, 2, 1));
+    expect(doc).toMatchObject({ format: EXPORT_FORMAT, version: EXPORT_VERSION });
+
+    const parsed = importOk(JSON.stringify(doc));
+    expect(parsed.alarms).toEqual(alarms);
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.exportedAt).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('rejects documents it cannot read', () => {
+    expect(parseImport('{')).toEqual({ ok: false, error: 'This is not valid JSON.' });
+    expect(parseImport('{"format":"other"}')).toEqual({
+      ok: false,
+      error: 'This is not a WAKE export.',
+    });
+    const newer = JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION + 1, alarms: [] });
+    expect(parseImport(newer).ok).toBe(false);
+  });
+
+  it('imports the valid alarms and reports the rest', () => {
+    const text = JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: 1,
+      alarms: [makeAlarm('a1'), { id: 'bad' }, makeAlarm('a1')],
+    });
+    const parsed = importOk(text);
+    expect(parsed.alarms.map((a) => a.id)).toEqual(['a1']);
+    expect(parsed.rejected.map((r) => r.index)).toEqual([1, 2]);
+  });
+});
+
+describe('previewImport', () => {
+  it('sorts alarms into added, updated, removed and unchanged', () => {
+    const current = [makeAlarm('a1'), makeAlarm('a2'), makeAlarm('a3')];
+    const incoming = [makeAlarm('a1'), makeAlarm('a2', { label: 'New' }), makeAlarm('a4')];
+
+    const replace = previewImport(current, incoming, 'replace');
+    expect(replace.added.map((a) => a.id)).toEqual(['a4']);
+    expect(replace.updated.map((a) => a.id)).toEqual(['a2']);
+    expect(replace.removed.map((a) => a.id)).toEqual(['a3']);
+    expect(replace.unchanged.map((a) => a.id)).toEqual(['a1']);
+
+    const merge = previewImport(current, incoming, 'merge');
+    expect(merge.removed).toEqual([]);
+    expect(merge.unchanged.map((a) => a.id)).toEqual(['a1', 'a3']);
+  });
+
+  it('ignores key order and absent fields when comparing', () => {
+    const stored = { ...makeAlarm('a1'), label: undefined };
+    const { id, time, ...rest } = makeAlarm('a1');
+    const imported = { ...rest, time: { minute: time.minute, hour: time.hour }, id } as Alarm;
+
+    const preview = previewImport([stored], [imported], 'merge');
+    expect(preview.unchanged).toHaveLength(1);
+    expect(preview.updated).toEqual([]);
+  });
+});
+
+describe('applyImport', () => {
+  it('merges by ID in place, appending new alarms', () => {
+    const current = [makeAlarm('a1'), makeAlarm('a2')];
+    const incoming = [makeAlarm('a3'), makeAlarm('a1', { label: 'New' })];
+    expect(applyImport(current, incoming, 'merge').map((a) => [a.id, a.label])).toEqual([
+      ['a1', 'New'],
+      ['a2', undefined],
+      ['a3', undefined],
+    ]);
+  });
+
+  it('replaces the whole list', () => {
+    const incoming = [makeAlarm('a3')];
+    expect(applyImport([makeAlarm('a1')], incoming, 'replace')).toBe(incoming);
+  });
+});
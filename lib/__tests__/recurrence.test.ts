@@ -0,0 +1,162 @@
+import {
+  buildOnOffRotation,
+  buildWeeksRotation,
+  formatRotation,
+  getNextOccurrences,
+  getNextSkippedDate,
+  getPreviousOccurrence,
+  getRetriggerTimes,
+  getRotationShape,
+  getWeeklyRepeatDays,
+  parseISODate,
+  zonedTimeToInstant,
+} from '../recurrence';
+import { DEFAULT_CHALLENGE_CONFIG, DEFAULT_RETRIGGER_POLICY } from '../constants';
+import type { Alarm } from '../types';
+
+const NEW_YORK = 'America/New_York';
+const EVERY_DAY = [true, true, true, true, true, true, true];
+const WEEKDAYS = [true, true, true, true, true, false, false];
+
+function makeAlarm(overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id: 'alarm',
+    time: { hour: 7, minute: 0 },
+    enabledDays: WEEKDAYS,
+    soundChoice: 'SIREN',
+    challenge: { ...DEFAULT_CHALLENGE_CONFIG },
+    retrigger: { ...DEFAULT_RETRIGGER_POLICY },
+    isArmed: true,
+    ...overrides,
+  };
+}
+
+function date(value: string) {
+  const parsed = parseISODate(value);
+  if (!parsed) throw new Error(`bad date ${value}`);
+  return parsed;
+}
+
+describe('zonedTimeToInstant', () => {
+  it('moves a wall time skipped by spring-forward past the jump', () => {
+    // 02:30 doesn't exist on 2026-03-08 in New York; it rings at 03:30 EDT
+    expect(zonedTimeToInstant(date('2026-03-08'), 2, 30, NEW_YORK)).toBe(
+      Date.UTC(2026, 2, 8, 7, 30),
+    );
+  });
+
+  it('picks the earlier instant of a wall time repeated by fall-back', () => {
+    // 01:30 happens twice on 2026-11-01; the EDT one comes first
+    expect(zonedTimeToInstant(date('2026-11-01'), 1, 30, NEW_YORK)).toBe(
+      Date.UTC(2026, 10, 1, 5, 30),
+    );
+  });
+});
+
+describe('getNextOccurrences', () => {
+  it('keeps the wall time across a DST change', () => {
+    const alarm = makeAlarm({ enabledDays: EVERY_DAY });
+    const from = Date.UTC(2026, 2, 7, 0, 0);
+    expect(getNextOccurrences(alarm, 3, { from, timeZone: NEW_YORK })).toEqual([
+      Date.UTC(2026, 2, 7, 12, 0), // 07:00 EST
+      Date.UTC(2026, 2, 8, 11, 0), // 07:00 EDT
+      Date.UTC(2026, 2, 9, 11, 0),
+    ]);
+  });
+
+  it('follows the weekly mask', () => {
+    // Friday morning: the next ones are Friday, then Monday
+    const from = Date.UTC(2026, 2, 6, 6, 0);
+    expect(getNextOccurrences(makeAlarm(), 2, { from, timeZone: 'UTC' })).toEqual([
+      Date.UTC(2026, 2, 6, 7, 0),
+      Date.UTC(2026, 2, 9, 7, 0),
+    ]);
+  });
+
+  it('leaves out skip dates', () => {
+    const alarm = makeAlarm({ skipDates: ['2026-03-03'] });
+    const from = Date.UTC(2026, 2, 2, 8, 0);
+    expect(getNextOccurrences(alarm, 2, { from, timeZone: 'UTC' })).toEqual([
+      Date.UTC(2026, 2, 4, 7, 0),
+      Date.UTC(2026, 2, 5, 7, 0),
+    ]);
+    expect(getNextSkippedDate(alarm, { from, timeZone: 'UTC' })).toEqual(date('2026-03-03'));
+  });
+
+  it('rings a one-time alarm once', () => {
+    const alarm = makeAlarm({ date: '2026-03-04' });
+    const options = { from: Date.UTC(2026, 2, 2), timeZone: 'UTC' };
+    expect(getNextOccurrences(alarm, 3, options)).toEqual([Date.UTC(2026, 2, 4, 7, 0)]);
+    expect(getNextOccurrences(alarm, 1, { ...options, from: Date.UTC(2026, 2, 5) })).toEqual([]);
+  });
+
+  it('follows an on/off rotation from its anchor', () => {
+    const alarm = makeAlarm({ rotation: buildOnOffRotation(date('2026-03-03'), 2, 3) });
+    const from = Date.UTC(2026, 2, 1);
+    expect(getNextOccurrences(alarm, 4, { from, timeZone: 'UTC' })).toEqual([
+      Date.UTC(2026, 2, 3, 7, 0),
+      Date.UTC(2026, 2, 4, 7, 0),
+      Date.UTC(2026, 2, 8, 7, 0),
+      Date.UTC(2026, 2, 9, 7, 0),
+    ]);
+  });
+});
+
+describe('getPreviousOccurrence', () => {
+  it('finds the occurrence ringing now', () => {
+    const from = Date.UTC(2026, 2, 9, 7, 5);
+    expect(getPreviousOccurrence(makeAlarm(), { from, timeZone: 'UTC' })).toBe(
+      Date.UTC(2026, 2, 9, 7, 0),
+    );
+  });
+});
+
+describe('rotations', () => {
+  it('reads a rotation back in the mode it was built in', () => {
+    // A Monday-anchored 7 on / 7 off cycle has the shape of two weeks
+    const onOff = buildOnOffRotation(date('2026-03-02'), 7, 7);
+    expect(getRotationShape(onOff)).toEqual({ kind: 'on-off', on: 7, off: 7 });
+
+    const weeks = buildWeeksRotation(date('2026-03-04'), [WEEKDAYS, EVERY_DAY]);
+    expect(weeks.anchor).toBe('2026-03-02');
+    expect(getRotationShape(weeks)).toEqual({ kind: 'weeks', weeks: [WEEKDAYS, EVERY_DAY] });
+  });
+
+  it('uses a weekly repeat only when every week is alike and the cycle has started', () => {
+    const alike = makeAlarm({
+      rotation: buildWeeksRotation(date('2026-03-02'), [WEEKDAYS, WEEKDAYS]),
+    });
+    const started = { from: Date.UTC(2026, 2, 3), timeZone: 'UTC' };
+    expect(getWeeklyRepeatDays(alike, started)).toEqual(WEEKDAYS);
+    expect(getWeeklyRepeatDays(alike, { ...started, from: Date.UTC(2026, 1, 20) })).toBeNull();
+
+    const everyOther = makeAlarm({
+      rotation: buildWeeksRotation(date('2026-03-02'), [WEEKDAYS, EVERY_DAY.map(() => false)]),
+    });
+    expect(getWeeklyRepeatDays(everyOther, started)).toBeNull();
+  });
+
+  it('labels each shape', () => {
+    const monday = date('2026-03-02');
+    const none = EVERY_DAY.map(() => false);
+    const mwf = [true, false, true, false, true, false, false];
+    expect(formatRotation(buildWeeksRotation(monday, [mwf]))).toBe('EVERY WEEK · M W F');
+    expect(formatRotation(buildWeeksRotation(monday, [mwf, none]))).toBe('EVERY 2 WEEKS · M W F');
+    expect(formatRotation(buildWeeksRotation(monday, [mwf, none, WEEKDAYS]))).toBe(
+      '3-WEEK ROTATION',
+    );
+    expect(formatRotation(buildOnOffRotation(monday, 4, 4))).toBe('4 ON · 4 OFF');
+  });
+});
+
+describe('getRetriggerTimes', () => {
+  it('shrinks each gap down to the minimum', () => {
+    const minute = 60 * 1000;
+    expect(getRetriggerTimes(0, 4, 3 * minute, minute)).toEqual([
+      3 * minute,
+      5 * minute,
+      6 * minute,
+      7 * minute,
+    ]);
+  });
+});
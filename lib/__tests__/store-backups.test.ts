@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORE_KEY, backupStorage, listBackups, readBackup } from '../store-backups';
+import { VirtualClock, setClock } from '../clock';
+
+const MINUTE = 60 * 1000;
+
+let clock: VirtualClock;
+
+function persisted(alarmCount: number): string {
+  const alarms = Array.from({ length: alarmCount }, (_, i) => ({ id: `a${i}` }));
+  return JSON.stringify({ state: { alarms }, version: 5 });
+}
+
+async function write(alarmCount: number): Promise<void> {
+  await backupStorage.setItem(STORE_KEY, persisted(alarmCount));
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  clock = new VirtualClock(Date.UTC(2026, 2, 2, 6, 0));
+  setClock(clock);
+});
+
+describe('snapshots', () => {
+  it('coalesces writes close together unless alarms were removed', async () => {
+    await write(2);
+    clock.advance(MINUTE);
+    await write(3);
+    expect((await listBackups()).map((b) => b.alarmCount)).toEqual([3]);
+
+    clock.advance(MINUTE);
+    await write(1);
+    expect((await listBackups()).map((b) => b.alarmCount)).toEqual([1, 3]);
+
+    clock.advance(10 * MINUTE);
+    await write(4);
+    expect((await listBackups()).map((b) => b.alarmCount)).toEqual([4, 1, 3]);
+  });
+
+  it('keeps both snapshots when alarms are removed within the same millisecond', async () => {
+    await write(5);
+    await write(4);
+
+    const backups = await listBackups();
+    expect(backups.map((b) => b.alarmCount)).toEqual([4, 5]);
+    expect(new Set(backups.map((b) => b.key)).size).toBe(2);
+    expect(await readBackup(backups[1].key)).toBe(persisted(5));
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  STORE_VERSION,
+  migratePersistedState,
+  parseAlarm,
+  sanitizePersistedState,
+} from '../store-migrations';
+import { DEFAULT_CHALLENGE_CONFIG, DEFAULT_RETRIGGER_POLICY } from '../constants';
+import { IDLE_SESSION } from '../firing-session';
+
+const WEEKDAYS = [true, true, true, true, true, false, false];
+
+function hydrate(persisted: unknown, version: number) {
+  return sanitizePersistedState(migratePersistedState(persisted, version));
+}
+
+describe('migration chain', () => {
+  it('brings the original single-alarm state up to date', () => {
+    const state = hydrate(
+      {
+        alarmTime: { hour: 6, minute: 30 },
+        enabledDays: WEEKDAYS,
+        soundChoice: 'PULSE',
+        isArmed: true,
+      },
+      0,
+    );
+
+    expect(state.alarms).toHaveLength(1);
+    expect(state.alarms[0]).toMatchObject({
+      time: { hour: 6, minute: 30 },
+      enabledDays: WEEKDAYS,
+      soundChoice: 'PULSE',
+      isArmed: true,
+      challenge: DEFAULT_CHALLENGE_CONFIG,
+      retrigger: DEFAULT_RETRIGGER_POLICY,
+    });
+    expect(state.history).toEqual([]);
+    expect(state.session).toEqual(IDLE_SESSION);
+    expect(state.quarantine).toEqual([]);
+    expect(state.pausedUntil).toBeNull();
+  });
+
+  it('keeps fields added by later versions', () => {
+    const alarm = {
+      id: 'a1',
+      time: { hour: 7, minute: 0 },
+      enabledDays: WEEKDAYS,
+      soundChoice: 'SIREN',
+      challenge: { ...DEFAULT_CHALLENGE_CONFIG, difficulty: 5 },
+      isArmed: false,
+    };
+    const state = hydrate({ alarms: [alarm], history: [], session: null }, 3);
+    expect(state.alarms[0].challenge.difficulty).toBe(5);
+    expect(state.alarms[0].retrigger).toEqual(DEFAULT_RETRIGGER_POLICY);
+  });
+
+  it('is a no-op at the current version', () => {
+    const persisted = { alarms: [], history: [], session: null, quarantine: [], pausedUntil: null };
+    expect(migratePersistedState(persisted, STORE_VERSION)).toEqual(persisted);
+  });
+});
+
+describe('validation', () => {
+  it('quarantines alarms that cannot be repaired, and duplicates', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const good = { id: 'a1', time: { hour: 7, minute: 0 }, enabledDays: WEEKDAYS };
+    const state = sanitizePersistedState({
+      alarms: [good, { ...good, id: 'a2', time: { hour: 25, minute: 0 } }, good],
+    });
+    expect(state.alarms.map((a) => a.id)).toEqual(['a1']);
+    expect(state.quarantine.map((q) => q.reason)).toEqual([
+      'time missing or out of range',
+      'duplicate id a1',
+    ]);
+    jest.restoreAllMocks();
+  });
+
+  it('repairs cosmetic problems', () => {
+    const result = parseAlarm({
+      time: { hour: 7, minute: 0 },
+      enabledDays: WEEKDAYS,
+      soundChoice: 'KAZOO',
+      isArmed: 'yes',
+      skipDates: ['2026-03-04', 'soon', '2026-03-03', '2026-03-04'],
+      label: '  Gym  ',
+    });
+    if (!('alarm' in result)) throw new Error(result.reason);
+    expect(result.alarm.id).toEqual(expect.any(String));
+    expect(result.alarm).toMatchObject({
+      soundChoice: 'SIREN',
+      isArmed: false,
+      skipDates: ['2026-03-03', '2026-03-04'],
+      label: 'Gym',
+    });
+  });
+
+  it('rejects a weeks rotation that is not whole weeks', () => {
+    const result = parseAlarm({
+      time: { hour: 7, minute: 0 },
+      enabledDays: WEEKDAYS,
+      rotation: { kind: 'weeks', anchor: '2026-03-02', pattern: [true, false, true] },
+    });
+    expect(result).toEqual({ reason: 'rotation is not a valid anchor date and day pattern' });
+  });
+
+  it('rejects a rotation without a kind', () => {
+    const result = parseAlarm({
+      time: { hour: 7, minute: 0 },
+      enabledDays: WEEKDAYS,
+      rotation: { anchor: '2026-03-02', pattern: WEEKDAYS },
+    });
+    expect(result).toEqual({ reason: 'rotation is not a valid anchor date and day pattern' });
+  });
+});
@@ -0,0 +1,68 @@
+// ─── Alarm Backend ───────────────────────────────────────────────────
+// The scheduler talks to the platform through this interface instead of
+// calling the AlarmKit module directly. AlarmKit is the default where it's
+// available; elsewhere local notifications stand in for it, the browser
+// build uses in-tab timers, and the simulated backend replaces them all in
+// headless runs.
+
+import { Platform } from 'react-native';
+import { isAlarmKitAvailable } from '../modules/alarm-kit';
+import type { AuthorizationStatus, ScheduleResult } from '../modules/alarm-kit';
+import { alarmKitBackend } from './alarmkit-backend';
+import { NotificationAlarmBackend } from './notification-backend';
+import { WebAlarmBackend } from './web-backend';
+
+export type { AuthorizationStatus, ScheduleResult };
+
+/** Platform alarm service that can schedule, cancel and report native alarms */
+export interface AlarmBackend {
+  /** Prompt for alarm permission if needed and return the resulting status */
+  requestAuthorization(): Promise<AuthorizationStatus>;
+  /** Current permission status, without prompting */
+  getAuthorizationStatus(): AuthorizationStatus;
+  /** Schedule a one-shot alarm at an absolute timestamp (epoch ms) */
+  scheduleFixedAlarm(
+    id: string,
+    timestamp: number,
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult>;
+  /** Schedule a weekly alarm. Weekdays use Apple's convention: 1=Sun ... 7=Sat */
+  scheduleRecurringAlarm(
+    id: string,
+    hour: number,
+    minute: number,
+    weekdays: number[],
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult>;
+  cancelAlarm(id: string): Promise<boolean>;
+  cancelAllAlarms(): Promise<boolean>;
+  /** Lowercase UUIDs of every alarm the backend currently has scheduled */
+  listScheduledAlarms(): Promise<string[]>;
+  /** Read and clear the UUID of the alarm that launched the app, if any */
+  getLaunchAlarmId(): string | null;
+  /**
+   * Be told when a launch alarm arrives while the app is running, for
+   * backends that don't bring the app to the foreground themselves.
+   * Returns an unsubscribe function.
+   */
+  addLaunchListener?(listener: () => void): () => void;
+}
+
+/** The backend for the platform the app is running on */
+function createPlatformBackend(): AlarmBackend {
+  if (Platform.OS === 'web') return new WebAlarmBackend();
+  return isAlarmKitAvailable() ? alarmKitBackend : new NotificationAlarmBackend();
+}
+
+let activeBackend: AlarmBackend = createPlatformBackend();
+
+/** Replace the backend used by the scheduler. */
+export function setAlarmBackend(backend: AlarmBackend): void {
+  activeBackend = backend;
+}
+
+export function getAlarmBackend(): AlarmBackend {
+  return activeBackend;
+}
@@ -0,0 +1,50 @@
+// ─── Alarm Launch ────────────────────────────────────────────────────
+// What the app does when it comes up: a launch by an alarm (the lock
+// screen's "Open WAKE", or a tapped notification) starts a firing session,
+// and a session interrupted by the app being killed is picked up again.
+// The root layout runs these on launch and foreground and opens the firing
+// screen when they say so; tests drive them against the simulated backend.
+
+import { useAlarmStore } from './alarm-store';
+import { consumeLaunchAlarm } from './alarm-scheduler';
+import { isSessionActive, isSessionResumable } from './firing-session';
+import { now as currentTime } from './clock';
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Check if the app was launched by an alarm. If so, start a firing
+ * session for it. Returns true when the firing screen should be opened.
+ */
+export function checkAlarmLaunch(): boolean {
+  const store = useAlarmStore.getState();
+
+  // The StopAlarmIntent (or a tapped notification) leaves the native UUID
+  // — main alarm or a re-trigger; map it back to the store's alarm so the
+  // right sound and schedule are used
+  const launch = consumeLaunchAlarm(store.alarms);
+
+  // Guard: don't start again if we're already handling an alarm. The
+  // launch is still consumed so it can't start a second session later
+  if (isSessionActive(store.session)) return false;
+
+  if (!launch) return false;
+  store.beginSession(launch.alarm?.id ?? null);
+  return true;
+}
+
+/**
+ * Cold-start handling of a persisted firing session. An alarm that was
+ * ringing when the app was killed reopens the firing screen with its
+ * original chain and start time; stale sessions, and one left on the
+ * victory screen, are closed. Returns true when the firing screen should
+ * be opened.
+ */
+export function resumeFiringSession(): boolean {
+  const store = useAlarmStore.getState();
+  if (isSessionResumable(store.session, currentTime())) return true;
+  if (store.session.phase !== 'idle') {
+    store.endSession();
+  }
+  return false;
+}
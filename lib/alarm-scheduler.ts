@@ -1,12 +1,83 @@
-import type { Alarm, SoundKey } from './types';
+import type { Alarm, RetriggerPolicy, SoundKey } from './types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAlarmBackend } from './alarm-backend';
+import type { ScheduleResult } from './alarm-backend';
+import { now as currentTime } from './clock';
+import { DEFAULT_ALARM_TITLE, OPEN_APP_REMINDER } from './constants';
 import {
-  requestAuthorization,
-  scheduleFixedAlarm,
-  scheduleRecurringAlarm,
-  cancelAlarm as cancelNativeAlarm,
-  cancelAllAlarms as cancelAllNativeAlarms,
-} from '../modules/alarm-kit';
+  addDays,
+  daysBetween,
+  getCivilDate,
+  getDayIndex,
+  getNextOccurrence,
+  getNextOccurrences,
+  getPreviousOccurrence,
+  getRetriggerTimes,
+  getUpcomingSkipDates,
+  getWeeklyRepeatDays,
+  isOneTimeAlarm,
+  parseISODate,
+  toISODate,
+} from './recurrence';
+import type { CivilDate } from './recurrence';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** What the store wants scheduled, read at the moment an alarm is reconciled */
+export interface DesiredAlarmState {
+  alarms: Alarm[];
+  /**
+   * Latest occurrence (epoch ms) dismissed in the app, by alarm ID. Its
+   * re-triggers, and any earlier ones, are no longer wanted.
+   */
+  dismissedThrough: Record<string, number>;
+  /** Vacation mode: no alarm is scheduled, armed or not */
+  paused: boolean;
+}
+
+type NativeSchedule =
+  | { kind: 'fixed'; timestamp: number }
+  | { kind: 'recurring'; hour: number; minute: number; weekdays: number[] };
+
+/** One native alarm an armed alarm should have */
+interface NativeAlarmSpec {
+  /**
+   * Identity within its alarm: 'main', 'main:<occurrence>' for one of
+   * several fixed main alarms, or 'retrigger:<occurrence>:<n>'
+   */
+  key: string;
+  schedule: NativeSchedule;
+  soundName: string;
+  title: string;
+  /** Fixed time to fall back to if a recurring schedule fails */
+  fallbackAt: number | null;
+  /**
+   * Re-triggers of an occurrence that has already rung: kept if they were
+   * scheduled in time, never added late
+   */
+  keepOnly: boolean;
+}
+
+/** How a repeating alarm's main alarms are split (see getMainPlan) */
+interface MainPlan {
+  /** Mon–Sun days a weekly native repeat rings on, or null for none */
+  repeatDays: boolean[] | null;
+  /** Last date ("YYYY-MM-DD") other days' occurrences get fixed alarms through */
+  fixedThrough: string | null;
+}
+
+/** A native alarm this app scheduled, persisted by UUID */
+interface NativeAlarmRecord {
+  alarmId: string;
+  key: string;
+  /** The spec it was scheduled from; a different desired spec replaces it */
+  signature: string;
+  /** When a fixed alarm fires — after that it's left to finish, not cancelled */
+  fireAt: number | null;
+}
+
+/** Receives each alarm's schedule outcome; null once it has none to schedule */
+type ScheduleResultListener = (alarmId: string, result: ScheduleResult | null) => void;
 
 // ─── Helpers ────────────────────────────────────────────────────────
 
@@ -19,61 +90,27 @@ const SOUND_NAMES: Record<SoundKey, string> = {
   HORN: 'horn',
 };
 
-// AlarmKit requires UUID identifiers but our store uses short IDs (base36).
-// This in-memory map bridges the two; entries are created on schedule and
-// cleaned up on cancel. Lost on app restart, but alarms re-schedule on hydrate
-const alarmUUIDs = new Map<string, string>();
-
-// ─── Re-trigger persistence ─────────────────────────────────────────
-// Maps alarm ID -> array of native UUIDs for the re-trigger alarms.
-// Persisted to AsyncStorage so we can cancel them after an app restart.
-const RETRIGGER_STORAGE_KEY = 'wake-retrigger-uuids';
-const retriggerUUIDs = new Map<string, string[]>();
+/** Lock-screen alert title: the alarm's label, or the default */
+export function getAlarmTitle(alarm: Alarm): string {
+  return alarm.label ?? DEFAULT_ALARM_TITLE;
+}
 
-const RETRIGGER_COUNT = 10;
-const RETRIGGER_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
+const MAIN_KEY = 'main';
 
-async function loadRetriggerUUIDs(): Promise<void> {
-  try {
-    const raw = await AsyncStorage.getItem(RETRIGGER_STORAGE_KEY);
-    if (raw) {
-      const entries: [string, string[]][] = JSON.parse(raw);
-      retriggerUUIDs.clear();
-      for (const [key, uuids] of entries) {
-        retriggerUUIDs.set(key, uuids);
-      }
-    }
-  } catch (e) {
-    console.warn('[AlarmScheduler] Failed to load retrigger UUIDs:', e);
-  }
+function isMainKey(key: string): boolean {
+  return key === MAIN_KEY || key.startsWith(`${MAIN_KEY}:`);
 }
 
-async function saveRetriggerUUIDs(): Promise<void> {
-  try {
-    const entries = Array.from(retriggerUUIDs.entries());
-    await AsyncStorage.setItem(RETRIGGER_STORAGE_KEY, JSON.stringify(entries));
-  } catch (e) {
-    console.warn('[AlarmScheduler] Failed to save retrigger UUIDs:', e);
-  }
-}
+/** Occurrences ahead of now that keep their re-triggers scheduled */
+const RETRIGGER_HORIZON = 3;
 
-/**
- * Generate a deterministic UUID v4 string from an alarm ID.
- * AlarmKit requires UUID format, so we pad/hash our short IDs.
- */
-function getUUID(alarmId: string): string {
-  const existing = alarmUUIDs.get(alarmId);
-  if (existing) return existing;
+/** Days ahead covered by fixed main alarms when a weekly repeat can't be used */
+const FIXED_HORIZON_DAYS = 14;
 
-  // Generate a proper UUID and associate it
-  const uuid = 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-  alarmUUIDs.set(alarmId, uuid);
-  return uuid;
-}
+/** Fixed main alarms run at least this many days past the last skip they work around */
+const FIXED_TAIL_DAYS = 14;
+
+const MINUTE_MS = 60 * 1000;
 
 /**
  * Convert our enabledDays (0=Mon..6=Sun) to AlarmKit weekday ints.
@@ -92,184 +129,658 @@ function toAlarmKitWeekdays(enabledDays: boolean[]): number[] {
   return weekdays;
 }
 
+/** AlarmKit requires UUID identifiers; every native alarm gets a fresh one */
+function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+/** Re-trigger instants for one occurrence under the alarm's policy */
+function getPolicyRetriggerTimes(occurrence: number, policy: RetriggerPolicy): number[] {
+  return getRetriggerTimes(
+    occurrence,
+    policy.count,
+    policy.intervalMinutes * MINUTE_MS,
+    policy.decreaseMinutes * MINUTE_MS,
+  );
+}
+
+/** Sound for the `index`-th re-trigger (1-based), after any escalation */
+function getRetriggerSound(alarm: Alarm, index: number): SoundKey {
+  const escalation = alarm.retrigger.escalation;
+  return escalation && index >= escalation.from ? escalation.sound : alarm.soundChoice;
+}
+
+// ─── Native alarm records ───────────────────────────────────────────
+// Every native alarm we schedule — main alarms and re-triggers — is
+// recorded here by UUID, with the alarm it belongs to and what it was
+// scheduled as. Persisted to AsyncStorage so reconciliation after a
+// restart can tell which native alarms are still right, which to replace
+// and which to cancel.
+
+const NATIVE_ALARMS_STORAGE_KEY = 'wake-native-alarms';
+const nativeAlarms = new Map<string, NativeAlarmRecord>();
+
+// Older builds kept alarm ID → main UUID and alarm ID → re-trigger UUIDs
+const LEGACY_ALARM_UUID_STORAGE_KEY = 'wake-alarm-uuids';
+const LEGACY_RETRIGGER_STORAGE_KEY = 'wake-retrigger-uuids';
+
+/** UUIDs being scheduled right now and not yet recorded */
+const inFlight = new Set<string>();
+
+let markRecordsLoaded: () => void = () => {};
+const recordsLoaded = new Promise<void>((resolve) => {
+  markRecordsLoaded = resolve;
+});
+
+let saveChain: Promise<void> = Promise.resolve();
+
+async function loadNativeAlarms(): Promise<void> {
+  try {
+    const raw = await AsyncStorage.getItem(NATIVE_ALARMS_STORAGE_KEY);
+    nativeAlarms.clear();
+    if (raw) {
+      const entries: [string, NativeAlarmRecord][] = JSON.parse(raw);
+      for (const [uuid, record] of entries) {
+        nativeAlarms.set(uuid, record);
+      }
+    } else {
+      await loadLegacyUUIDs();
+    }
+  } catch (e) {
+    console.warn('[AlarmScheduler] Failed to load native alarm records:', e);
+  }
+}
+
 /**
- * Calculate the next Date when the alarm should fire (for one-shot scheduling).
+ * Bring in the UUID maps written by older builds. Their alarms become
+ * records with an empty signature, so the first reconciliation replaces or
+ * cancels each of them.
  */
-function getNextTriggerDate(
-  hour: number,
-  minute: number,
-  enabledDays: boolean[],
-): Date | null {
-  const now = new Date();
+async function loadLegacyUUIDs(): Promise<void> {
+  const [mainRaw, retriggerRaw] = await Promise.all([
+    AsyncStorage.getItem(LEGACY_ALARM_UUID_STORAGE_KEY),
+    AsyncStorage.getItem(LEGACY_RETRIGGER_STORAGE_KEY),
+  ]);
+  if (!mainRaw && !retriggerRaw) return;
+
+  const legacyRecord = (alarmId: string, key: string): NativeAlarmRecord => ({
+    alarmId,
+    key,
+    signature: '',
+    fireAt: null,
+  });
 
-  for (let offset = 0; offset < 7; offset++) {
-    const candidate = new Date(now);
-    candidate.setDate(candidate.getDate() + offset);
-    candidate.setHours(hour, minute, 0, 0);
+  if (mainRaw) {
+    const entries: [string, string][] = JSON.parse(mainRaw);
+    for (const [alarmId, uuid] of entries) {
+      nativeAlarms.set(uuid, legacyRecord(alarmId, MAIN_KEY));
+    }
+  }
+  if (retriggerRaw) {
+    // Either a flat UUID list per alarm or [occurrence, UUIDs] pairs
+    const entries: [string, unknown[]][] = JSON.parse(retriggerRaw);
+    for (const [alarmId, value] of entries) {
+      const uuids = value.flatMap((v): string[] =>
+        typeof v === 'string' ? [v] : Array.isArray(v) && Array.isArray(v[1]) ? v[1] : [],
+      );
+      uuids.forEach((uuid, i) => nativeAlarms.set(uuid, legacyRecord(alarmId, `legacy:${i}`)));
+    }
+  }
 
-    const jsDay = candidate.getDay();
-    const dayIndex = jsDay === 0 ? 6 : jsDay - 1;
+  await saveNativeAlarms();
+  await AsyncStorage.multiRemove([LEGACY_ALARM_UUID_STORAGE_KEY, LEGACY_RETRIGGER_STORAGE_KEY]);
+}
 
-    if (!enabledDays[dayIndex]) continue;
-    if (offset === 0 && candidate.getTime() <= now.getTime()) continue;
+/** Persist the records. Writes are chained so they land in order. */
+function saveNativeAlarms(): Promise<void> {
+  saveChain = saveChain.then(async () => {
+    try {
+      const entries = Array.from(nativeAlarms.entries());
+      await AsyncStorage.setItem(NATIVE_ALARMS_STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+      console.warn('[AlarmScheduler] Failed to save native alarm records:', e);
+    }
+  });
+  return saveChain;
+}
 
-    return candidate;
+/** UUIDs the backend has scheduled, or null if they can't be listed */
+async function listNativeAlarms(): Promise<Set<string> | null> {
+  try {
+    return new Set(await getAlarmBackend().listScheduledAlarms());
+  } catch (e) {
+    console.warn('[AlarmScheduler] Failed to list native alarms:', e);
+    return null;
   }
+}
+
+// ─── Desired state ──────────────────────────────────────────────────
 
-  return null;
+let desiredStateSource: (() => DesiredAlarmState) | null = null;
+
+function getSignature(spec: NativeAlarmSpec): string {
+  return JSON.stringify([spec.schedule, spec.soundName, spec.title]);
 }
 
-// ─── Re-trigger scheduling ──────────────────────────────────────────
+/**
+ * Split a repeating alarm's main alarms between a weekly native repeat and
+ * fixed alarms. A rotation no weekly mask expresses gets fixed alarms over
+ * the next FIXED_HORIZON_DAYS. Otherwise the weekly repeat stays, except on
+ * the weekdays of coming skip dates (a repeat would ring on them): those
+ * weekdays get fixed alarms instead, through FIXED_HORIZON_DAYS and at
+ * least FIXED_TAIL_DAYS past the last skip in range. A skip within
+ * FIXED_HORIZON_DAYS of one in range extends the range. The other weekdays
+ * keep ringing however long the app goes unopened, and once the skips have
+ * passed the next reconcile puts their weekdays back on the repeat.
+ */
+function getMainPlan(alarm: Alarm, current: number): MainPlan {
+  const today = getCivilDate(current);
+  const horizon = toISODate(addDays(today, FIXED_HORIZON_DAYS));
+  const weeklyDays = getWeeklyRepeatDays(alarm, { from: current });
+  if (weeklyDays === null) return { repeatDays: null, fixedThrough: horizon };
+
+  // ISO dates sort chronologically as strings
+  const interrupted = new Set<number>();
+  let reach = horizon;
+  let last: CivilDate | null = null;
+  for (const value of getUpcomingSkipDates(alarm, { from: current })) {
+    const date = parseISODate(value);
+    if (!date || value > reach) break;
+    interrupted.add(getDayIndex(date));
+    last = date;
+    reach = toISODate(addDays(date, FIXED_HORIZON_DAYS));
+  }
+  if (last === null) return { repeatDays: weeklyDays, fixedThrough: null };
 
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
+  const tail = toISODate(addDays(last, FIXED_TAIL_DAYS));
+  return {
+    repeatDays: weeklyDays.map((on, i) => on && !interrupted.has(i)),
+    fixedThrough: tail > horizon ? tail : horizon,
+  };
+}
+
+/** Whether the plan's main alarms ring for an occurrence. */
+function coversOccurrence(plan: MainPlan, occurrence: number): boolean {
+  const date = getCivilDate(occurrence);
+  if (plan.repeatDays?.[getDayIndex(date)]) return true;
+  return plan.fixedThrough !== null && toISODate(date) <= plan.fixedThrough;
+}
+
+/** Occurrences through the plan's fixed window that its weekly repeat doesn't ring for. */
+function getFixedOccurrences(alarm: Alarm, plan: MainPlan, current: number): number[] {
+  const end = plan.fixedThrough ? parseISODate(plan.fixedThrough) : null;
+  if (!end) return [];
+  // At most one occurrence a day
+  const count = daysBetween(getCivilDate(current), end) + 1;
+  return getNextOccurrences(alarm, count, { from: current }).filter((occurrence) => {
+    const date = getCivilDate(occurrence);
+    return toISODate(date) <= plan.fixedThrough! && !plan.repeatDays?.[getDayIndex(date)];
   });
 }
 
 /**
- * Schedule 10 re-trigger alarms at +2, +4, ... +20 min after the alarm's
- * next fire time. These are independent one-shot native alarms that fire
- * even if the app is killed, ensuring the user can't just dismiss the
- * notification and go back to sleep.
+ * The main native alarms for an armed alarm. One-time alarms (with a
+ * `date`) use a fixed alarm at that date; repeating alarms use a recurring
+ * weekly schedule and, where it can't ring on the right days, one fixed
+ * alarm per occurrence over a rolling window (see getMainPlan), the last
+ * of which reminds the user to open the app. Returns the invalid result
+ * instead when there's nothing to schedule.
  */
-async function scheduleRetriggers(alarm: Alarm): Promise<void> {
-  // Cancel any existing re-triggers for this alarm first
-  await cancelRetriggers(alarm.id);
-
-  const baseDate = getNextTriggerDate(
-    alarm.time.hour,
-    alarm.time.minute,
-    alarm.enabledDays,
+function getMainSpecs(alarm: Alarm, current: number): NativeAlarmSpec[] | ScheduleResult {
+  const soundName = SOUND_NAMES[alarm.soundChoice];
+  const title = getAlarmTitle(alarm);
+  const nextOccurrence = getNextOccurrence(alarm, { from: current });
+  const base = { soundName, title, fallbackAt: null, keepOnly: false };
+
+  if (isOneTimeAlarm(alarm)) {
+    // Past its date there's nothing left to schedule but the re-triggers
+    // still ringing; the store disarms it once they're done
+    if (nextOccurrence === null) return [];
+    return [{ ...base, key: MAIN_KEY, schedule: { kind: 'fixed', timestamp: nextOccurrence } }];
+  }
+
+  const repeatDays = alarm.rotation?.pattern ?? alarm.enabledDays;
+  if (!repeatDays.some(Boolean)) {
+    return { status: 'invalid', message: 'No repeat days are selected.' };
+  }
+
+  const plan = getMainPlan(alarm, current);
+  const specs: NativeAlarmSpec[] = [];
+  if (plan.repeatDays?.some(Boolean)) {
+    // Prefer recurring schedule so the alarm repeats automatically each week
+    const schedule: NativeSchedule = {
+      kind: 'recurring',
+      hour: alarm.time.hour,
+      minute: alarm.time.minute,
+      weekdays: toAlarmKitWeekdays(plan.repeatDays),
+    };
+    const repeating: Alarm = { ...alarm, rotation: undefined, enabledDays: plan.repeatDays };
+    const fallbackAt = getNextOccurrence(repeating, { from: current });
+    specs.push({ ...base, key: MAIN_KEY, schedule, fallbackAt });
+  }
+  const fixed = getFixedOccurrences(alarm, plan, current);
+  fixed.forEach((occurrence, i) => {
+    // Nothing is scheduled past the last one until the app is opened again,
+    // so it says so on the lock screen
+    const last = i === fixed.length - 1;
+    specs.push({
+      ...base,
+      key: `${MAIN_KEY}:${occurrence}`,
+      schedule: { kind: 'fixed', timestamp: occurrence },
+      title: last ? `${title} · ${OPEN_APP_REMINDER}` : title,
+    });
+  });
+  return specs;
+}
+
+/**
+ * The re-trigger alarms the alarm's policy asks for (by default 10, at +2,
+ * +4, ... +20 min) after each of the next RETRIGGER_HORIZON occurrences,
+ * so later days still get them when the app isn't opened in between.
+ * These are independent one-shot native alarms that fire even if the app
+ * is killed, ensuring the user can't just dismiss the notification and go
+ * back to sleep.
+ *
+ * The occurrence that last rang keeps its remaining re-triggers until it
+ * is dismissed in the app. Occurrences past the fixed main alarms' window
+ * on days the weekly repeat skips get no re-triggers yet, so none ring
+ * without a main alarm.
+ */
+function getRetriggerSpecs(
+  alarm: Alarm,
+  current: number,
+  dismissedThrough: number | undefined,
+): NativeAlarmSpec[] {
+  const title = getAlarmTitle(alarm);
+  const previous = getPreviousOccurrence(alarm, { from: current });
+  const plan = isOneTimeAlarm(alarm) ? null : getMainPlan(alarm, current);
+  const occurrences = getNextOccurrences(alarm, RETRIGGER_HORIZON, { from: current }).filter(
+    (occurrence) => plan === null || coversOccurrence(plan, occurrence),
   );
-  if (!baseDate) return;
+  if (previous !== null) occurrences.unshift(previous);
+
+  const specs: NativeAlarmSpec[] = [];
+  for (const occurrence of occurrences) {
+    if (dismissedThrough !== undefined && occurrence <= dismissedThrough) continue;
+
+    getPolicyRetriggerTimes(occurrence, alarm.retrigger).forEach((timestamp, i) => {
+      if (timestamp <= current) return;
+      specs.push({
+        key: `retrigger:${occurrence}:${i + 1}`,
+        schedule: { kind: 'fixed', timestamp },
+        soundName: SOUND_NAMES[getRetriggerSound(alarm, i + 1)],
+        title,
+        fallbackAt: null,
+        keepOnly: occurrence <= current,
+      });
+    });
+  }
+  return specs;
+}
 
-  const baseTime = baseDate.getTime();
-  const now = Date.now();
-  const soundName = SOUND_NAMES[alarm.soundChoice];
-  const uuids: string[] = [];
+// ─── Reconciliation ─────────────────────────────────────────────────
+
+/**
+ * Schedule one native alarm and record it. A recurring schedule that
+ * AlarmKit rejects (it can fail on older OS versions) falls back to a
+ * one-shot alarm at the next occurrence; the record keeps the recurring
+ * signature so it isn't replaced until that alarm has fired.
+ */
+async function scheduleSpec(alarmId: string, spec: NativeAlarmSpec): Promise<ScheduleResult> {
+  const backend = getAlarmBackend();
+  const uuid = generateUUID();
+  const { schedule, soundName, title } = spec;
+  inFlight.add(uuid);
 
-  for (let i = 1; i <= RETRIGGER_COUNT; i++) {
-    const triggerTime = baseTime + i * RETRIGGER_INTERVAL_MS;
-    if (triggerTime <= now) continue; // skip past timestamps
+  try {
+    let fireAt: number | null = null;
+    let result: ScheduleResult;
+    if (schedule.kind === 'fixed') {
+      fireAt = schedule.timestamp;
+      result = await backend.scheduleFixedAlarm(uuid, fireAt, soundName, title);
+    } else {
+      const { hour, minute, weekdays } = schedule;
+      result = await backend.scheduleRecurringAlarm(uuid, hour, minute, weekdays, soundName, title);
+      if (result.status === 'native-error' && spec.fallbackAt !== null) {
+        fireAt = spec.fallbackAt;
+        result = await backend.scheduleFixedAlarm(uuid, fireAt, soundName, title);
+      }
+    }
 
-    const uuid = generateUUID();
-    await scheduleFixedAlarm(uuid, triggerTime, soundName, 'WAKE UP');
-    uuids.push(uuid);
+    if (result.status === 'scheduled') {
+      nativeAlarms.set(uuid, { alarmId, key: spec.key, signature: getSignature(spec), fireAt });
+    }
+    return result;
+  } finally {
+    inFlight.delete(uuid);
   }
+}
 
-  if (uuids.length > 0) {
-    retriggerUUIDs.set(alarm.id, uuids);
-    await saveRetriggerUUIDs();
+/**
+ * Bring one alarm's native alarms in line with what it should have. A
+ * recorded alarm that's still scheduled and matches its desired spec is
+ * kept; a changed one is replaced; one that's no longer wanted is
+ * cancelled — unless it's a fixed alarm whose time has come, which is left
+ * to finish so an alert in progress isn't silenced. Records of alarms the
+ * backend no longer has (fired, or removed in Settings) are dropped, and
+ * missing alarms are scheduled.
+ *
+ * Returns the outcome for the main alarm, or null when the alarm is
+ * disarmed, deleted or paused by vacation mode. Re-triggers are only
+ * scheduled once the main alarm is, and their failures are only logged.
+ */
+async function reconcileAlarmNow(alarmId: string): Promise<ScheduleResult | null> {
+  if (!desiredStateSource) {
+    console.warn('[AlarmScheduler] No desired state source — skipping reconcile.');
+    return null;
   }
+  const { alarms, dismissedThrough, paused } = desiredStateSource();
+  const alarm = alarms.find((a) => a.id === alarmId);
+  const backend = getAlarmBackend();
+  const current = currentTime();
+  const scheduled = await listNativeAlarms();
+  let changed = false;
+
+  // What the alarm has now, by key
+  const existing = new Map<string, string>();
+  for (const [uuid, record] of nativeAlarms) {
+    if (record.alarmId !== alarmId) continue;
+    if (scheduled && !scheduled.has(uuid)) {
+      nativeAlarms.delete(uuid);
+      changed = true;
+      continue;
+    }
+    existing.set(record.key, uuid);
+  }
+
+  // What it should have
+  let mainResult: ScheduleResult | null = null;
+  const desired: NativeAlarmSpec[] = [];
+  if (alarm?.isArmed && !paused) {
+    const main = getMainSpecs(alarm, current);
+    if ('status' in main) {
+      mainResult = main;
+      console.warn(`[AlarmScheduler] Alarm ${alarmId} not scheduled: ${main.status}`);
+    } else {
+      desired.push(...main);
+    }
+    desired.push(...getRetriggerSpecs(alarm, current, dismissedThrough[alarmId]));
+  }
+
+  const cancel = async (uuid: string) => {
+    await backend.cancelAlarm(uuid);
+    nativeAlarms.delete(uuid);
+    changed = true;
+  };
+
+  const desiredKeys = new Set(desired.map((spec) => spec.key));
+  for (const [key, uuid] of existing) {
+    if (desiredKeys.has(key)) continue;
+    const { fireAt } = nativeAlarms.get(uuid)!;
+    if (fireAt !== null && fireAt <= current) continue;
+    await cancel(uuid);
+  }
+
+  const missing: NativeAlarmSpec[] = [];
+  for (const spec of desired) {
+    const uuid = existing.get(spec.key);
+    if (uuid !== undefined && nativeAlarms.get(uuid)!.signature === getSignature(spec)) {
+      if (isMainKey(spec.key)) mainResult ??= { status: 'scheduled' };
+      continue;
+    }
+    if (uuid !== undefined) await cancel(uuid);
+    if (!spec.keepOnly) missing.push(spec);
+  }
+
+  if (missing.length > 0) {
+    const hasPermission = await requestPermissions();
+    if (!hasPermission) {
+      console.warn('[AlarmScheduler] Alarm permissions not granted.');
+      // A main alarm that's already scheduled still rings
+      if (missing.some((spec) => isMainKey(spec.key))) {
+        mainResult = { status: 'permission-denied' };
+      }
+    } else {
+      for (const spec of missing) {
+        const result = await scheduleSpec(alarmId, spec);
+        if (result.status === 'scheduled') changed = true;
+
+        if (isMainKey(spec.key)) {
+          mainResult = result;
+          if (result.status !== 'scheduled') break;
+        } else if (result.status !== 'scheduled') {
+          console.warn(`[AlarmScheduler] Re-trigger not scheduled (${result.status}) for alarm ${alarmId}`);
+        }
+      }
+    }
+  }
+
+  if (changed) await saveNativeAlarms();
+  return mainResult;
 }
 
 /**
- * Cancel all pending re-trigger alarms for the given alarm ID.
+ * Cancel native alarms that no record accounts for — left behind by a
+ * lost record or an older build. Alarms mid-schedule are skipped.
  */
-export async function cancelRetriggers(alarmId: string): Promise<void> {
-  const uuids = retriggerUUIDs.get(alarmId);
-  if (uuids) {
-    for (const uuid of uuids) {
-      await cancelNativeAlarm(uuid);
+async function cancelOrphans(): Promise<void> {
+  const scheduled = await listNativeAlarms();
+  if (!scheduled) return;
+  for (const uuid of scheduled) {
+    if (nativeAlarms.has(uuid) || inFlight.has(uuid)) continue;
+    console.warn(`[AlarmScheduler] Cancelling unrecorded native alarm ${uuid}`);
+    await getAlarmBackend().cancelAlarm(uuid);
+  }
+}
+
+// ─── Reconcile queue ────────────────────────────────────────────────
+// Store changes don't await scheduling, so quick edits (e.g. toggling an
+// alarm on, off and on again) would otherwise interleave native calls for
+// the same alarm. Each alarm has a queue that runs one reconcile at a
+// time. A reconcile reads the store when it runs, so requests made in the
+// same tick, or while one is running, collapse into a single follow-up.
+
+interface ReconcileQueue {
+  /** Another reconcile was requested since the running one started */
+  pending: boolean;
+  /** Resolves once the queue has run dry */
+  drained: Promise<void>;
+}
+
+const reconcileQueues = new Map<string, ReconcileQueue>();
+
+let scheduleResultListener: ScheduleResultListener | null = null;
+
+async function drainQueue(alarmId: string, queue: ReconcileQueue): Promise<void> {
+  await recordsLoaded;
+  while (queue.pending) {
+    queue.pending = false;
+    try {
+      scheduleResultListener?.(alarmId, await reconcileAlarmNow(alarmId));
+    } catch (e) {
+      console.warn(`[AlarmScheduler] Reconcile failed for alarm ${alarmId}:`, e);
+      scheduleResultListener?.(alarmId, { status: 'native-error', message: String(e) });
     }
-    retriggerUUIDs.delete(alarmId);
-    await saveRetriggerUUIDs();
   }
+  reconcileQueues.delete(alarmId);
 }
 
 // ─── Public API ─────────────────────────────────────────────────────
 
 /**
- * Restore persisted retrigger UUID maps on app start.
- * Must be called before checkAlarmLaunch so cancellation works after restart.
+ * Restore the persisted native alarm records on app start. Reconciles
+ * wait for this, and checkAlarmLaunch (lib/alarm-launch) needs it to
+ * match launch UUIDs.
  */
 export async function initializeScheduler(): Promise<void> {
-  await loadRetriggerUUIDs();
+  await loadNativeAlarms();
+  markRecordsLoaded();
 }
 
 /**
- * Request alarm permissions. Returns true if granted.
+ * Register where reconciliation reads the desired state from (the store's
+ * alarms and dismissal history). Read afresh for every reconcile.
  */
-export async function requestPermissions(): Promise<boolean> {
-  const status = await requestAuthorization();
-  return status === 'authorized';
+export function setDesiredStateSource(source: (() => DesiredAlarmState) | null): void {
+  desiredStateSource = source;
 }
 
 /**
- * Schedule a native AlarmKit alarm for the given alarm config.
- * Uses recurring schedule if multiple days are enabled,
- * otherwise falls back to a fixed one-shot alarm.
+ * Queue a reconcile of one alarm's native alarms against its current
+ * settings. Resolves once it (or a later one that superseded it) has run.
  */
-export async function scheduleAlarm(alarm: Alarm): Promise<void> {
-  // Cancel existing first
-  await cancelAlarm(alarm.id);
+export function reconcileAlarm(alarmId: string): Promise<void> {
+  const existing = reconcileQueues.get(alarmId);
+  if (existing) {
+    existing.pending = true;
+    return existing.drained;
+  }
 
-  const hasPermission = await requestPermissions();
-  if (!hasPermission) {
-    console.warn('[AlarmScheduler] Alarm permissions not granted.');
-    return;
+  const queue: ReconcileQueue = { pending: true, drained: Promise.resolve() };
+  // Start on the next microtask so requests made in the same tick collapse
+  queue.drained = Promise.resolve().then(() => drainQueue(alarmId, queue));
+  reconcileQueues.set(alarmId, queue);
+  return queue.drained;
+}
+
+/**
+ * Full pass that brings native alarms back in line with the store: every
+ * alarm in the store or with recorded native alarms is reconciled, then
+ * any native alarm we have no record of is cancelled. Run on app start and
+ * whenever the app returns to the foreground, so re-triggers keep covering
+ * upcoming days even if alarms are only ever dismissed from the lock screen.
+ */
+export async function reconcileScheduledAlarms(): Promise<void> {
+  await recordsLoaded;
+  const alarmIds = new Set(desiredStateSource?.().alarms.map((a) => a.id) ?? []);
+  for (const record of nativeAlarms.values()) {
+    alarmIds.add(record.alarmId);
   }
 
-  const uuid = getUUID(alarm.id);
-  const soundName = SOUND_NAMES[alarm.soundChoice];
-  const weekdays = toAlarmKitWeekdays(alarm.enabledDays);
+  await Promise.all(Array.from(alarmIds, (alarmId) => reconcileAlarm(alarmId)));
+  await cancelOrphans();
+}
 
-  if (weekdays.length === 0) {
-    console.warn('[AlarmScheduler] No enabled days — alarm not scheduled.');
-    return;
+/**
+ * Reverse lookup from a native AlarmKit UUID to the store's alarm ID.
+ * Matches both the main alarm UUID and any of its re-trigger UUIDs.
+ * Returns null if the UUID isn't one we scheduled.
+ */
+export function getAlarmIdForUUID(uuid: string): string | null {
+  return nativeAlarms.get(uuid.toLowerCase())?.alarmId ?? null;
+}
+
+/**
+ * Resolve the alarm that launched the app from the UUID written by the
+ * lock screen intent.
+ *
+ * If the UUID is unknown (e.g. orphaned by a reinstall or a lost mapping),
+ * falls back to the armed alarm that was most recently due to fire.
+ * Returns undefined when no armed alarm can be matched.
+ */
+export function resolveLaunchAlarm(
+  uuid: string,
+  alarms: Alarm[],
+): Alarm | undefined {
+  const alarmId = getAlarmIdForUUID(uuid);
+  if (alarmId) {
+    const match = alarms.find((a) => a.id === alarmId);
+    if (match) return match;
   }
 
-  // Prefer recurring schedule so the alarm repeats automatically each week
-  const success = await scheduleRecurringAlarm(
-    uuid,
-    alarm.time.hour,
-    alarm.time.minute,
-    weekdays,
-    soundName,
-    'WAKE UP',
-  );
+  console.warn(`[AlarmScheduler] Unknown launch UUID ${uuid}, using most recently due alarm.`);
 
-  if (!success) {
-    // Recurring scheduling can fail on older OS versions; fall back to a
-    // one-shot fixed alarm targeting the next matching day
-    const triggerDate = getNextTriggerDate(
-      alarm.time.hour,
-      alarm.time.minute,
-      alarm.enabledDays,
-    );
-    if (triggerDate) {
-      await scheduleFixedAlarm(
-        uuid,
-        triggerDate.getTime(),
-        soundName,
-        'WAKE UP',
-      );
+  let best: Alarm | undefined;
+  let bestTime = -Infinity;
+  for (const alarm of alarms) {
+    if (!alarm.isArmed) continue;
+    const due = getPreviousOccurrence(alarm, { from: currentTime() });
+    if (due !== null && due > bestTime) {
+      best = alarm;
+      bestTime = due;
     }
   }
+  return best;
+}
 
-  // Schedule re-trigger alarms so the alarm keeps firing until the challenge is solved
-  await scheduleRetriggers(alarm);
+/**
+ * Read the launch UUID from the backend (clearing it) and resolve it to a
+ * stored alarm. Returns null if the app was not launched by an alarm;
+ * `alarm` is undefined when the UUID could not be matched to any alarm.
+ */
+export function consumeLaunchAlarm(
+  alarms: Alarm[],
+): { uuid: string; alarm: Alarm | undefined } | null {
+  const uuid = getAlarmBackend().getLaunchAlarmId();
+  if (!uuid) return null;
+  return { uuid, alarm: resolveLaunchAlarm(uuid, alarms) };
 }
 
 /**
- * Cancel a specific alarm and its re-triggers.
+ * How many re-triggers of the occurrence at `occurrence` had rung by
+ * `until` under `policy`. Used by the dismissal history to record how long
+ * an alarm was left going.
  */
-export async function cancelAlarm(alarmId: string): Promise<void> {
-  const uuid = alarmUUIDs.get(alarmId);
-  if (uuid) {
-    await cancelNativeAlarm(uuid);
-    alarmUUIDs.delete(alarmId);
+export function countRetriggersRung(
+  occurrence: number,
+  until: number,
+  policy: RetriggerPolicy,
+): number {
+  return getPolicyRetriggerTimes(occurrence, policy).filter((time) => time <= until).length;
+}
+
+/**
+ * The sound the alarm is ringing with at `at`: its escalated sound once
+ * the latest occurrence's re-triggers have reached the escalation, its own
+ * sound otherwise. Used by the firing screen, so opening the app from an
+ * escalated re-trigger keeps ringing that sound.
+ */
+export function getRingingSound(alarm: Alarm, at: number): SoundKey {
+  const occurrence = getPreviousOccurrence(alarm, { from: at });
+  if (occurrence === null) return alarm.soundChoice;
+  return getRetriggerSound(alarm, countRetriggersRung(occurrence, at, alarm.retrigger));
+}
+
+/**
+ * Request alarm permissions. Returns true if granted.
+ */
+export async function requestPermissions(): Promise<boolean> {
+  const status = await getAlarmBackend().requestAuthorization();
+  return status === 'authorized';
+}
+
+/**
+ * Register the receiver of schedule outcomes (the store's per-alarm
+ * scheduleStatus). Called after every reconcile.
+ */
+export function setScheduleResultListener(listener: ScheduleResultListener | null): void {
+  scheduleResultListener = listener;
+}
+
+/**
+ * Resolves once every queued reconcile — for one alarm, or for all
+ * alarms — has run.
+ */
+export async function whenSchedulingSettled(alarmId?: string): Promise<void> {
+  if (alarmId !== undefined) {
+    await reconcileQueues.get(alarmId)?.drained;
+    return;
+  }
+  // More reconciles may have been queued while waiting
+  while (reconcileQueues.size > 0) {
+    await Promise.all(Array.from(reconcileQueues.values(), (q) => q.drained));
   }
-  await cancelRetriggers(alarmId);
 }
 
 /**
  * Cancel all alarms.
  */
 export async function cancelAllAlarms(): Promise<void> {
-  await cancelAllNativeAlarms();
-  alarmUUIDs.clear();
+  await getAlarmBackend().cancelAllAlarms();
+  nativeAlarms.clear();
+  await saveNativeAlarms();
 }
@@ -1,18 +1,54 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Alarm, ChallengeType, SoundKey } from './types';
+import type {
+  Alarm,
+  ChallengeType,
+  DismissalRecord,
+  FiringPhase,
+  FiringSession,
+  QuarantinedAlarm,
+} from './types';
 import {
-  scheduleAlarm,
-  cancelAlarm,
-  cancelAllAlarms,
-  cancelRetriggers,
+  countRetriggersRung,
+  reconcileAlarm,
+  reconcileScheduledAlarms,
+  setDesiredStateSource,
+  setScheduleResultListener,
 } from './alarm-scheduler';
+import type { ScheduleResult } from './alarm-backend';
+import { now as currentTime } from './clock';
+import { getNextOccurrence, getPreviousOccurrence, isOneTimeAlarm } from './recurrence';
+import { appendDismissal } from './dismissal-history';
+import { applyImport, buildExport } from './alarm-transfer';
+import type { ImportMode } from './alarm-transfer';
+import { IDLE_SESSION, canTransition } from './firing-session';
+import { hasPauseEnded } from './vacation-mode';
+import {
+  STORE_VERSION,
+  generateAlarmId,
+  migratePersistedState,
+  sanitizePersistedState,
+} from './store-migrations';
+import type { PersistedState } from './store-migrations';
+import { STORE_KEY, backupStorage, clearCorruptState, readBackup } from './store-backups';
 
 // ─── Helpers ───────────────────────────────────────────────────────
 
-function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+/**
+ * Move a firing session to `to`, merging `updates`. Returns null (and
+ * warns) when the state machine doesn't allow the change.
+ */
+function transitionSession(
+  session: FiringSession,
+  to: FiringPhase,
+  updates: Partial<FiringSession> = {},
+): FiringSession | null {
+  if (!canTransition(session.phase, to)) {
+    console.warn(`[AlarmStore] Ignoring session transition ${session.phase} → ${to}`);
+    return null;
+  }
+  return { ...session, ...updates, phase: to };
 }
 
 // ─── State Shape ────────────────────────────────────────────────────
@@ -20,35 +56,39 @@ function generateId(): string {
 interface AlarmStoreState {
   // Persisted
   alarms: Alarm[];
+  /** Completed firing sessions, oldest first — query via lib/dismissal-history */
+  history: DismissalRecord[];
+  /** The alarm currently firing, if any — see lib/firing-session */
+  session: FiringSession;
+  /** Persisted alarms that failed validation — see lib/store-migrations */
+  quarantine: QuarantinedAlarm[];
+  /** Last day of a vacation pause ("YYYY-MM-DD"), or null — see lib/vacation-mode */
+  pausedUntil: string | null;
 
-  // Transient runtime state (not persisted)
-  activeAlarmId: string | null;
-  isRinging: boolean;
-  challengeStartTime: number | null;
+  // Runtime only
+  /** Outcome of each armed alarm's last native schedule, by alarm ID */
+  scheduleStatus: Record<string, ScheduleResult>;
 }
 
 interface AlarmStoreActions {
   addAlarm: (alarm: Omit<Alarm, 'id'>) => string;
   updateAlarm: (id: string, updates: Partial<Omit<Alarm, 'id'>>) => void;
   deleteAlarm: (id: string) => void;
+  importAlarms: (alarms: Alarm[], mode: ImportMode) => void;
   toggleAlarm: (id: string) => void;
-  setActiveAlarmId: (id: string | null) => void;
-  startRinging: () => void;
-  stopRinging: () => void;
-  startChallenge: () => void;
-  completeDismiss: () => number;
+  pauseAlarms: (until: string) => void;
+  resumeAlarms: () => void;
+  beginSession: (alarmId: string | null) => void;
+  startChallenge: (challengeTypes: ChallengeType[]) => void;
+  advanceStage: () => void;
+  recordWrongAttempt: () => void;
+  completeDismiss: (usedSkip?: boolean) => number;
+  endSession: () => void;
+  clearHistory: () => void;
 }
 
 type AlarmStore = AlarmStoreState & AlarmStoreActions;
 
-// ─── Default Values ─────────────────────────────────────────────────
-
-const DEFAULT_ENABLED_DAYS: boolean[] = [true, true, true, true, true, false, false];
-const DEFAULT_SOUND_CHOICE: SoundKey = 'SIREN';
-
-/** Valid sound keys for migration check */
-const VALID_SOUND_KEYS: readonly string[] = ['SIREN', 'PULSE', 'GLASS', 'DRILL', 'HORN'];
-
 // ─── Store ──────────────────────────────────────────────────────────
 
 export const useAlarmStore = create<AlarmStore>()(
@@ -56,21 +96,23 @@ export const useAlarmStore = create<AlarmStore>()(
     (set, get) => ({
       // ── Persisted state ──────────────────────────────────────────
       alarms: [],
+      history: [],
+      session: { ...IDLE_SESSION },
+      quarantine: [],
+      pausedUntil: null,
 
-      // ── Transient state ──────────────────────────────────────────
-      activeAlarmId: null,
-      isRinging: false,
-      challengeStartTime: null,
+      // ── Runtime state ────────────────────────────────────────────
+      scheduleStatus: {},
 
       // ── Actions ──────────────────────────────────────────────────
+      // Native alarms follow from the state: the subscription below has the
+      // scheduler reconcile every alarm an action touches, without awaiting
+      // it here; whenSchedulingSettled() resolves once that has run
 
       addAlarm: (alarm) => {
-        const id = generateId();
+        const id = generateAlarmId();
         const newAlarm: Alarm = { ...alarm, id };
         set((state) => ({ alarms: [...state.alarms, newAlarm] }));
-        if (newAlarm.isArmed) {
-          scheduleAlarm(newAlarm);
-        }
         return id;
       },
 
@@ -80,126 +122,291 @@ export const useAlarmStore = create<AlarmStore>()(
             a.id === id ? { ...a, ...updates } : a,
           ),
         }));
-        const updated = get().alarms.find((a) => a.id === id);
-        if (updated) {
-          if (updated.isArmed) {
-            scheduleAlarm(updated);
-          } else {
-            cancelAlarm(id);
-          }
-        }
       },
 
       deleteAlarm: (id) => {
-        cancelAlarm(id);
         set((state) => ({
           alarms: state.alarms.filter((a) => a.id !== id),
         }));
       },
 
+      // Apply a validated import (see lib/alarm-transfer)
+      importAlarms: (incoming, mode) => {
+        set({ alarms: applyImport(get().alarms, incoming, mode) });
+      },
+
       toggleAlarm: (id) => {
         set((state) => ({
           alarms: state.alarms.map((a) =>
             a.id === id ? { ...a, isArmed: !a.isArmed } : a,
           ),
         }));
-        const toggled = get().alarms.find((a) => a.id === id);
-        if (toggled) {
-          if (toggled.isArmed) {
-            scheduleAlarm(toggled);
-          } else {
-            cancelAlarm(id);
-          }
-        }
       },
 
-      setActiveAlarmId: (id) => set({ activeAlarmId: id }),
+      // ── Vacation mode ────────────────────────────────────────────
+      // Pausing cancels every native alarm but leaves isArmed alone, so
+      // resuming reschedules exactly the alarms that were armed
+
+      pauseAlarms: (until) => set({ pausedUntil: until }),
 
-      startRinging: () => set({ isRinging: true }),
+      resumeAlarms: () => set({ pausedUntil: null }),
 
-      stopRinging: () => set({ isRinging: false }),
+      // ── Firing session ───────────────────────────────────────────
 
-      startChallenge: () => set({ challengeStartTime: Date.now() }),
+      // An alarm started ringing (or a test alarm was opened)
+      beginSession: (alarmId) => {
+        const session = transitionSession(get().session, 'ringing', {
+          ...IDLE_SESSION,
+          alarmId,
+          ringStartTime: currentTime(),
+        });
+        if (session) set({ session });
+      },
 
-      // Called after the user completes a challenge. Returns elapsed seconds
-      // for the victory screen, then reschedules the alarm for its next
-      // occurrence so recurring alarms keep firing on future days
-      completeDismiss: () => {
+      // The firing screen resolved its chain. A session that is already in
+      // a challenge is being resumed after a relaunch, so it keeps its
+      // original chain and start time
+      startChallenge: (challengeTypes) => {
+        if (get().session.phase === 'in-challenge') return;
+        const session = transitionSession(get().session, 'in-challenge', {
+          challengeStartTime: currentTime(),
+          challengeTypes,
+          stageIndex: 0,
+          wrongAttempts: 0,
+        });
+        if (session) set({ session });
+      },
+
+      advanceStage: () => {
+        const { session } = get();
+        if (session.phase !== 'in-challenge') return;
+        const stageIndex = Math.min(session.stageIndex + 1, session.challengeTypes.length - 1);
+        set({ session: { ...session, stageIndex } });
+      },
+
+      recordWrongAttempt: () => {
+        const { session } = get();
+        if (session.phase !== 'in-challenge') return;
+        set({ session: { ...session, wrongAttempts: session.wrongAttempts + 1 } });
+      },
+
+      // Called after the user completes the last challenge stage (or holds
+      // to skip). Moves the session to dismissed, appends it to the history
+      // and returns elapsed seconds for the victory screen. The new record
+      // retires the occurrence's remaining re-triggers; recurring alarms
+      // keep their schedule for future days. One-time alarms have no next
+      // occurrence, so they are disarmed instead
+      completeDismiss: (usedSkip = false) => {
         const state = get();
-        const now = Date.now();
+        const current = state.session;
+        const dismissedAt = currentTime();
         const elapsedMs =
-          state.challengeStartTime != null
-            ? now - state.challengeStartTime
+          current.challengeStartTime != null
+            ? dismissedAt - current.challengeStartTime
             : 0;
         const elapsedSeconds = Math.round(elapsedMs / 1000);
 
-        set({
-          isRinging: false,
-          challengeStartTime: null,
-        });
+        const session = transitionSession(current, 'dismissed', { elapsedSeconds });
+        if (!session) return 0;
+
+        const firedAt = current.ringStartTime ?? current.challengeStartTime ?? dismissedAt;
+        const activeAlarm = current.alarmId
+          ? state.alarms.find((a) => a.id === current.alarmId)
+          : undefined;
+        const scheduledAt = activeAlarm
+          ? getPreviousOccurrence(activeAlarm, { from: firedAt })
+          : null;
+        const record: DismissalRecord = {
+          alarmId: activeAlarm?.id ?? null,
+          scheduledAt,
+          firedAt,
+          dismissedAt,
+          elapsedSeconds,
+          challengeTypes: current.challengeTypes,
+          wrongAttempts: current.wrongAttempts,
+          usedSkip,
+          retriggersRung:
+            activeAlarm && scheduledAt !== null
+              ? countRetriggersRung(scheduledAt, dismissedAt, activeAlarm.retrigger)
+              : 0,
+        };
+
+        set({ session, history: appendDismissal(state.history, record) });
 
-        // Cancel re-triggers first, then reschedule for the next occurrence
-        // (scheduleAlarm will set up fresh re-triggers for the next day)
-        if (state.activeAlarmId) {
-          cancelRetriggers(state.activeAlarmId);
-          const alarm = state.alarms.find(
-            (a) => a.id === state.activeAlarmId,
-          );
-          if (alarm && alarm.isArmed) {
-            scheduleAlarm(alarm);
-          }
+        if (activeAlarm && activeAlarm.isArmed && isOneTimeAlarm(activeAlarm)) {
+          set((s) => ({
+            alarms: s.alarms.map((a) =>
+              a.id === activeAlarm.id ? { ...a, isArmed: false } : a,
+            ),
+          }));
         }
 
         return elapsedSeconds;
       },
+
+      // The victory screen is done (or an active session is abandoned)
+      endSession: () => {
+        if (get().session.phase === 'idle') return;
+        const session = transitionSession(get().session, 'idle', IDLE_SESSION);
+        if (session) set({ session });
+      },
+
+      clearHistory: () => set({ history: [] }),
     }),
     {
-      name: 'wake-alarm-storage',
-      storage: createJSONStorage(() => AsyncStorage),
-      // Only persist the alarms array — transient state (isRinging, activeAlarmId,
-      // challengeStartTime) resets on app restart and doesn't belong in storage
-      partialize: (state) => ({
+      name: STORE_KEY,
+      // AsyncStorage with rolling snapshots — see lib/store-backups
+      storage: createJSONStorage(() => backupStorage),
+      // Persist alarms, history, the firing session, quarantine and the
+      // vacation pause — the session has to survive the app being killed
+      // mid-alarm so the next launch resumes it
+      partialize: (state): PersistedState => ({
         alarms: state.alarms,
+        history: state.history,
+        session: state.session,
+        quarantine: state.quarantine,
+        pausedUntil: state.pausedUntil,
       }),
-      // Migration: v1 stored a single alarm as top-level fields (alarmTime,
-      // enabledDays, etc). This converts that shape into the v2 alarms array
-      onRehydrateStorage: () => (state, error) => {
-        if (error || !state) return;
-
-        // Migration: if persisted data has old single-alarm fields
-        const raw = state as unknown as Record<string, unknown>;
-        if (!Array.isArray(raw.alarms) || (raw.alarms.length === 0 && raw.alarmTime)) {
-          const alarmTime = (raw.alarmTime as { hour: number; minute: number }) ?? {
-            hour: 7,
-            minute: 0,
-          };
-          const enabledDays =
-            (raw.enabledDays as boolean[]) ?? DEFAULT_ENABLED_DAYS;
-          let soundChoice =
-            (raw.soundChoice as SoundKey) ?? DEFAULT_SOUND_CHOICE;
-          if (!VALID_SOUND_KEYS.includes(soundChoice)) {
-            soundChoice = DEFAULT_SOUND_CHOICE;
-          }
-          const isArmed = (raw.isArmed as boolean) ?? false;
-
-          state.alarms = [
-            {
-              id: generateId(),
-              time: alarmTime,
-              enabledDays,
-              soundChoice,
-              isArmed,
-            },
-          ];
-        }
-
-        // Validate sound keys on all alarms
-        for (const alarm of state.alarms) {
-          if (!VALID_SOUND_KEYS.includes(alarm.soundChoice)) {
-            alarm.soundChoice = DEFAULT_SOUND_CHOICE;
-          }
-        }
-      },
+      // Versioned migrations run first (only when the stored version is
+      // older), then every hydrate is validated — see lib/store-migrations
+      version: STORE_VERSION,
+      migrate: (persisted, version) => migratePersistedState(persisted, version),
+      merge: (persisted, current) => ({ ...current, ...sanitizePersistedState(persisted) }),
     },
   ),
 );
+
+// ─── Scheduling ─────────────────────────────────────────────────────
+
+// The scheduler reads what should be scheduled from here: the alarms, the
+// latest occurrence of each that was dismissed in the app, and whether
+// vacation mode is holding them all back
+setDesiredStateSource(() => {
+  const { alarms, history, pausedUntil } = useAlarmStore.getState();
+  const dismissedThrough: Record<string, number> = {};
+  for (const record of history) {
+    if (record.alarmId === null || record.scheduledAt === null) continue;
+    dismissedThrough[record.alarmId] = Math.max(
+      dismissedThrough[record.alarmId] ?? -Infinity,
+      record.scheduledAt,
+    );
+  }
+  return { alarms, dismissedThrough, paused: pausedUntil !== null };
+});
+
+// Reconcile every alarm that was added, changed or removed, and every
+// alarm with a new dismissal, after each store change. Pausing or resuming
+// touches them all
+useAlarmStore.subscribe((state, previous) => {
+  const touched = new Set<string>();
+
+  if (state.pausedUntil !== previous.pausedUntil) {
+    for (const alarm of state.alarms) touched.add(alarm.id);
+  }
+
+  if (state.alarms !== previous.alarms) {
+    const previousById = new Map(previous.alarms.map((a) => [a.id, a]));
+    for (const alarm of state.alarms) {
+      if (previousById.get(alarm.id) !== alarm) touched.add(alarm.id);
+      previousById.delete(alarm.id);
+    }
+    for (const alarmId of previousById.keys()) touched.add(alarmId);
+  }
+
+  if (state.history !== previous.history) {
+    const known = new Set(previous.history);
+    for (const record of state.history) {
+      if (!known.has(record) && record.alarmId !== null) touched.add(record.alarmId);
+    }
+  }
+
+  for (const alarmId of touched) reconcileAlarm(alarmId);
+});
+
+// Native schedule outcomes arrive from the scheduler's reconcile queue;
+// an alarm with nothing to schedule clears its entry
+setScheduleResultListener((alarmId, result) => {
+  useAlarmStore.setState(({ scheduleStatus }) => {
+    const { [alarmId]: _previous, ...rest } = scheduleStatus;
+    return { scheduleStatus: result ? { ...rest, [alarmId]: result } : rest };
+  });
+});
+
+/**
+ * Resolves once the persisted alarms have been read back from AsyncStorage.
+ * Startup work that depends on the alarms array (launch detection, native
+ * reconciliation) must wait for this.
+ */
+export function waitForHydration(): Promise<void> {
+  if (useAlarmStore.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = useAlarmStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Replace the stored data with a snapshot from lib/store-backups and reload
+ * the store from it. Any firing session in the snapshot is closed, and
+ * native alarms are re-synced with the restored alarms. Returns false if
+ * the snapshot is missing or unreadable.
+ */
+export async function restoreFromBackup(key: string): Promise<boolean> {
+  const value = await readBackup(key);
+  if (value === null) return false;
+
+  await AsyncStorage.setItem(STORE_KEY, value);
+  clearCorruptState();
+  await useAlarmStore.persist.rehydrate();
+
+  const store = useAlarmStore.getState();
+  store.endSession();
+  await reconcileScheduledAlarms();
+  return true;
+}
+
+/**
+ * End a vacation pause whose last day has passed. Run on launch and on
+ * every foreground, before native alarms are reconciled; resuming then
+ * reschedules every alarm that is still armed.
+ */
+export function resumeIfPauseEnded(): void {
+  const { pausedUntil, resumeAlarms } = useAlarmStore.getState();
+  if (pausedUntil !== null && hasPauseEnded(pausedUntil, { from: currentTime() })) {
+    resumeAlarms();
+  }
+}
+
+/**
+ * Disarm one-time alarms that are over: their date has passed and every
+ * re-trigger has rung, but they were never dismissed in the app (stopped
+ * from the lock screen, or missed). Run with resumeIfPauseEnded, before
+ * native alarms are reconciled. An alarm with a firing session open is
+ * left to completeDismiss.
+ */
+export function disarmPassedAlarms(): void {
+  const { alarms, session } = useAlarmStore.getState();
+  const current = currentTime();
+  const isOver = (alarm: Alarm): boolean => {
+    if (!alarm.isArmed || !isOneTimeAlarm(alarm)) return false;
+    if (session.phase !== 'idle' && session.alarmId === alarm.id) return false;
+    if (getNextOccurrence(alarm, { from: current }) !== null) return false;
+    const occurrence = getPreviousOccurrence(alarm, { from: current });
+    return (
+      occurrence === null ||
+      countRetriggersRung(occurrence, current, alarm.retrigger) >= alarm.retrigger.count
+    );
+  };
+  if (!alarms.some(isOver)) return;
+  useAlarmStore.setState({
+    alarms: alarms.map((a) => (isOver(a) ? { ...a, isArmed: false } : a)),
+  });
+}
+
+/** The current alarms as a JSON export document (see lib/alarm-transfer). */
+export function exportAlarms(): string {
+  const { alarms } = useAlarmStore.getState();
+  return JSON.stringify(buildExport(alarms, currentTime()), null, 2);
+}
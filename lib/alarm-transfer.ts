@@ -0,0 +1,178 @@
+// ─── Alarm Transfer ──────────────────────────────────────────────────
+// Versioned JSON export/import of alarms, for setting up the same alarms
+// on several devices. The document carries every alarm (challenge configs
+// included) and a settings object. Import runs each alarm through the same
+// validation as a store hydrate, previews what would change, and merges by
+// alarm ID or replaces the whole list.
+
+import type { Alarm } from './types';
+import { parseAlarm } from './store-migrations';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface AlarmExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  /** ISO timestamp of when the document was produced */
+  exportedAt: string;
+  alarms: Alarm[];
+  /** App-wide settings; version 1 has none, newer fields are added here */
+  settings: Record<string, unknown>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ParsedImport =
+  | {
+      ok: true;
+      alarms: Alarm[];
+      /** Entries that failed validation, by position in the document */
+      rejected: { index: number; reason: string }[];
+      exportedAt: string | null;
+    }
+  | { ok: false; error: string };
+
+export interface ImportPreview {
+  added: Alarm[];
+  /** Existing alarms (by ID) whose settings the import overwrites */
+  updated: Alarm[];
+  /** Existing alarms dropped by a replace */
+  removed: Alarm[];
+  unchanged: Alarm[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+export const EXPORT_FORMAT = 'wake-alarms';
+
+/** Version of the export document written by this build */
+export const EXPORT_VERSION = 1;
+
+// ─── Export ──────────────────────────────────────────────────────────
+
+/** Build an export document for `alarms`. */
+export function buildExport(alarms: Alarm[], exportedAt: number): AlarmExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date(exportedAt).toISOString(),
+    alarms,
+    settings: {},
+  };
+}
+
+// ─── Import ──────────────────────────────────────────────────────────
+
+/** Parse and validate an export document from text. */
+export function parseImport(text: string): ParsedImport {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'This is not valid JSON.' };
+  }
+
+  if (!doc || typeof doc !== 'object') {
+    return { ok: false, error: 'This is not a WAKE export.' };
+  }
+  const d = doc as Record<string, unknown>;
+  if (d.format !== EXPORT_FORMAT) {
+    return { ok: false, error: 'This is not a WAKE export.' };
+  }
+  if (typeof d.version !== 'number' || d.version < 1) {
+    return { ok: false, error: 'The export has no valid version.' };
+  }
+  if (d.version > EXPORT_VERSION) {
+    return { ok: false, error: 'This export was made by a newer version of WAKE. Update the app first.' };
+  }
+  if (!Array.isArray(d.alarms)) {
+    return { ok: false, error: 'The export has no alarm list.' };
+  }
+
+  const alarms: Alarm[] = [];
+  const rejected: { index: number; reason: string }[] = [];
+  const seenIds = new Set<string>();
+  d.alarms.forEach((raw, index) => {
+    const result = parseAlarm(raw);
+    if (!('alarm' in result)) {
+      rejected.push({ index, reason: result.reason });
+    } else if (seenIds.has(result.alarm.id)) {
+      rejected.push({ index, reason: `duplicate id ${result.alarm.id}` });
+    } else {
+      seenIds.add(result.alarm.id);
+      alarms.push(result.alarm);
+    }
+  });
+
+  return {
+    ok: true,
+    alarms,
+    rejected,
+    exportedAt: typeof d.exportedAt === 'string' ? d.exportedAt : null,
+  };
+}
+
+/**
+ * Structural equality for JSON-like values. Object keys are compared by
+ * name, not order, and a key holding undefined counts as absent — the
+ * store and an import document can build the same alarm in either form.
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => isSameValue(item, b[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  for (const key of keys) {
+    if (!isSameValue(left[key], right[key])) return false;
+  }
+  return true;
+}
+
+function isSameAlarm(a: Alarm, b: Alarm): boolean {
+  return isSameValue(a, b);
+}
+
+/** What importing `incoming` into `current` would change. */
+export function previewImport(
+  current: Alarm[],
+  incoming: Alarm[],
+  mode: ImportMode,
+): ImportPreview {
+  const currentById = new Map(current.map((a) => [a.id, a]));
+  const incomingIds = new Set(incoming.map((a) => a.id));
+  const preview: ImportPreview = { added: [], updated: [], removed: [], unchanged: [] };
+
+  for (const alarm of incoming) {
+    const existing = currentById.get(alarm.id);
+    if (!existing) preview.added.push(alarm);
+    else if (isSameAlarm(existing, alarm)) preview.unchanged.push(alarm);
+    else preview.updated.push(alarm);
+  }
+
+  for (const alarm of current) {
+    if (incomingIds.has(alarm.id)) continue;
+    if (mode === 'replace') preview.removed.push(alarm);
+    else preview.unchanged.push(alarm);
+  }
+
+  return preview;
+}
+
+/**
+ * The alarm list after importing. Merge keeps existing alarms in place,
+ * overwriting those with a matching ID and appending new ones; replace
+ * takes the imported list as-is.
+ */
+export function applyImport(current: Alarm[], incoming: Alarm[], mode: ImportMode): Alarm[] {
+  if (mode === 'replace') return incoming;
+
+  const incomingById = new Map(incoming.map((a) => [a.id, a]));
+  const merged = current.map((a) => incomingById.get(a.id) ?? a);
+  const currentIds = new Set(current.map((a) => a.id));
+  return [...merged, ...incoming.filter((a) => !currentIds.has(a.id))];
+}
@@ -0,0 +1,29 @@
+import type { AlarmBackend } from './alarm-backend';
+import {
+  requestAuthorization,
+  getAuthorizationStatus,
+  scheduleFixedAlarm,
+  scheduleRecurringAlarm,
+  cancelAlarm,
+  cancelAllAlarms,
+  listScheduledAlarms,
+  getLaunchAlarmId,
+} from '../modules/alarm-kit';
+
+/** AlarmBackend backed by the AlarmKit Expo module (iOS 26+) */
+export const alarmKitBackend: AlarmBackend = {
+  requestAuthorization,
+  getAuthorizationStatus,
+  scheduleFixedAlarm,
+  scheduleRecurringAlarm,
+  cancelAlarm,
+  cancelAllAlarms,
+
+  // Swift formats UUIDs in uppercase; the scheduler generates lowercase
+  async listScheduledAlarms() {
+    const ids = await listScheduledAlarms();
+    return ids.map((id) => id.toLowerCase());
+  },
+
+  getLaunchAlarmId,
+};
@@ -0,0 +1,67 @@
+// ─── Clock ───────────────────────────────────────────────────────────
+// Injectable time source for scheduling logic. The app runs on the system
+// clock; headless runs swap in a VirtualClock so alarms can be "fired" by
+// advancing time instead of waiting for it.
+
+export interface Clock {
+  /** Current time as epoch milliseconds */
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+type ClockListener = (now: number) => void;
+
+/**
+ * Manually driven clock. Time only moves when `set` or `advance` is called,
+ * and subscribers are notified after every move.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private listeners = new Set<ClockListener>();
+
+  constructor(start: number = Date.now()) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  /** Jump to an absolute timestamp. Time never moves backwards. */
+  set(timestamp: number): void {
+    this.current = Math.max(this.current, timestamp);
+    for (const listener of this.listeners) {
+      listener(this.current);
+    }
+  }
+
+  /** Move forward by the given number of milliseconds. */
+  advance(ms: number): void {
+    this.set(this.current + ms);
+  }
+
+  /** Register a listener for time changes. Returns an unsubscribe function. */
+  subscribe(listener: ClockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// ─── Active Clock ────────────────────────────────────────────────────
+
+let activeClock: Clock = systemClock;
+
+/** Replace the clock used by the scheduler and store. */
+export function setClock(clock: Clock): void {
+  activeClock = clock;
+}
+
+/** Current time from the active clock, as epoch milliseconds. */
+export function now(): number {
+  return activeClock.now();
+}
@@ -380,19 +380,41 @@ console.log(a);`,
   },
 ];
 
+// ─── Difficulty Tiers ──────────────────────────────────────────────────────
+// Problems are tiered by category (the ID prefix). A difficulty level draws
+// from every tier at or below it, so level 5 uses the whole bank.
+
+const CATEGORY_TIERS: Record<string, number> = {
+  arr: 1,
+  math: 1,
+  str: 2,
+  sort: 2,
+  dict: 3,
+  loop: 4,
+  type: 5,
+  scope: 5,
+};
+
+function getTier(problem: CodeProblem): number {
+  return CATEGORY_TIERS[problem.id.split('-')[0]] ?? 1;
+}
+
 // ─── Public API ────────────────────────────────────────────────────────────
 
 /**
  * Returns a random code problem from the bank.
- * Optionally pass an array of IDs to exclude (e.g. recently shown problems).
+ * Optionally pass an array of IDs to exclude (e.g. recently shown problems)
+ * and a difficulty (1-5) to limit the pool to problems at or below that tier.
  */
-export function getRandomProblem(excludeIds?: string[]): CodeProblem {
-  let pool = PROBLEM_BANK;
+export function getRandomProblem(excludeIds?: string[], difficulty: number = 5): CodeProblem {
+  const level = Math.max(1, Math.min(5, Math.round(difficulty)));
+  const tiered = PROBLEM_BANK.filter((p) => getTier(p) <= level);
+  let pool = tiered;
 
   if (excludeIds && excludeIds.length > 0) {
     const excluded = new Set(excludeIds);
-    const filtered = PROBLEM_BANK.filter((p) => !excluded.has(p.id));
-    // Fall back to full bank if everything is excluded
+    const filtered = tiered.filter((p) => !excluded.has(p.id));
+    // Fall back to the whole tier if everything is excluded
     if (filtered.length > 0) {
       pool = filtered;
     }
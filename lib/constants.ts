@@ -174,24 +174,57 @@ export const SoundAssets: Record<import('./types').SoundKey, string> = {
 /** Day abbreviations in order */
 export const DAYS_OF_WEEK = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
 
-/** Challenge display metadata */
-export const CHALLENGE_META = {
-  math: {
-    label: 'Math',
-    icon: 'calculator',
-    color: Colors.mathAccent,
-    description: 'Solve calculus & algebra problems',
-  },
-  rhythm: {
-    label: 'Rhythm',
-    icon: 'musical-notes',
-    color: Colors.rhythmAccent,
-    description: 'Hit the beats in time',
-  },
-  code: {
-    label: 'Code',
-    icon: 'code-slash',
-    color: Colors.codeAccent,
-    description: 'Answer DSA questions',
-  },
+/** Difficulty, round and chain-length bounds for per-alarm challenge config */
+export const CHALLENGE_LIMITS = {
+  minDifficulty: 1,
+  maxDifficulty: 5,
+  minRounds: 1,
+  maxRounds: 5,
+  maxStages: 5,
+} as const;
+
+/** Title used for alarms without a label */
+export const DEFAULT_ALARM_TITLE = 'WAKE UP';
+
+/**
+ * Added to the title of the last fixed alarm the scheduler has queued up,
+ * after which days stop ringing until the app is opened
+ */
+export const OPEN_APP_REMINDER = 'OPEN WAKE TO KEEP IT RINGING';
+
+/** Length bounds for an alarm's label and note */
+export const ALARM_TEXT_LIMITS = {
+  maxLabelLength: 40,
+  maxNoteLength: 280,
 } as const;
+
+/** Rotation bounds: cycle length in weeks, and days in an on/off run */
+export const ROTATION_LIMITS = {
+  maxWeeks: 4,
+  maxRunDays: 14,
+  /** Longest cycle either editor mode produces */
+  maxCycleDays: 28,
+} as const;
+
+/** Re-trigger policy bounds; intervals are in minutes */
+export const RETRIGGER_LIMITS = {
+  maxCount: 20,
+  minInterval: 1,
+  maxInterval: 15,
+  maxDecrease: 5,
+} as const;
+
+/** Re-trigger policy for new alarms and alarms saved before it existed */
+export const DEFAULT_RETRIGGER_POLICY: import('./types').RetriggerPolicy = {
+  count: 10,
+  intervalMinutes: 2,
+  decreaseMinutes: 0,
+};
+
+/** Challenge config for new alarms and alarms saved before it existed */
+export const DEFAULT_CHALLENGE_CONFIG: import('./types').ChallengeConfig = {
+  types: 'random',
+  chain: ['random'],
+  difficulty: 3,
+  rounds: 1,
+};
@@ -0,0 +1,113 @@
+// ─── Dismissal History ───────────────────────────────────────────────
+// Read-side helpers for the firing history kept in the alarm store. The
+// store appends one DismissalRecord per completed firing session (oldest
+// first) and trims it to MAX_HISTORY_ENTRIES; screens query it here rather
+// than walking the raw array themselves.
+
+import type { ChallengeType, DismissalRecord } from './types';
+import { isChallengeType } from '../components/challenges/registry';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface HistoryQuery {
+  /** Only sessions for this alarm */
+  alarmId?: string;
+  /** Only sessions that presented this challenge */
+  challengeType?: ChallengeType;
+  /** Only sessions fired at or after this instant (epoch ms) */
+  since?: number;
+  /** Only sessions fired before this instant (epoch ms) */
+  until?: number;
+  /** Include test alarms (alarmId null). Defaults to false */
+  includeTests?: boolean;
+  /** Return at most this many records */
+  limit?: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Oldest records are dropped once the history grows past this */
+export const MAX_HISTORY_ENTRIES = 500;
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** Append a record, dropping the oldest entries beyond MAX_HISTORY_ENTRIES. */
+export function appendDismissal(
+  history: DismissalRecord[],
+  record: DismissalRecord,
+): DismissalRecord[] {
+  return [...history, record].slice(-MAX_HISTORY_ENTRIES);
+}
+
+/** Records matching `query`, newest first. */
+export function queryHistory(
+  history: DismissalRecord[],
+  query: HistoryQuery = {},
+): DismissalRecord[] {
+  const results: DismissalRecord[] = [];
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const record = history[i];
+    if (record.alarmId === null && !query.includeTests) continue;
+    if (query.alarmId !== undefined && record.alarmId !== query.alarmId) continue;
+    if (
+      query.challengeType !== undefined &&
+      !record.challengeTypes.includes(query.challengeType)
+    ) {
+      continue;
+    }
+    if (query.since !== undefined && record.firedAt < query.since) continue;
+    if (query.until !== undefined && record.firedAt >= query.until) continue;
+
+    results.push(record);
+    if (query.limit !== undefined && results.length >= query.limit) break;
+  }
+
+  return results;
+}
+
+/** The most recent record for an alarm, or null if it has never been dismissed. */
+export function getLastDismissal(
+  history: DismissalRecord[],
+  alarmId: string,
+): DismissalRecord | null {
+  return queryHistory(history, { alarmId, limit: 1 })[0] ?? null;
+}
+
+/**
+ * How late the user was, in seconds: from the scheduled occurrence to
+ * dismissal. Null for test alarms, which have no scheduled time.
+ */
+export function getLatenessSeconds(record: DismissalRecord): number | null {
+  if (record.scheduledAt === null) return null;
+  return Math.max(0, Math.round((record.dismissedAt - record.scheduledAt) / 1000));
+}
+
+/**
+ * Validate a persisted record, returning null for anything malformed.
+ * Used when rehydrating the store.
+ */
+export function parseDismissalRecord(raw: unknown): DismissalRecord | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+  if (r.alarmId !== null && typeof r.alarmId !== 'string') return null;
+  if (r.scheduledAt !== null && !isNumber(r.scheduledAt)) return null;
+  if (!isNumber(r.firedAt) || !isNumber(r.dismissedAt) || !isNumber(r.elapsedSeconds)) {
+    return null;
+  }
+  if (!Array.isArray(r.challengeTypes)) return null;
+
+  return {
+    alarmId: r.alarmId,
+    scheduledAt: r.scheduledAt,
+    firedAt: r.firedAt,
+    dismissedAt: r.dismissedAt,
+    elapsedSeconds: r.elapsedSeconds,
+    challengeTypes: r.challengeTypes.filter(isChallengeType),
+    wrongAttempts: isNumber(r.wrongAttempts) ? r.wrongAttempts : 0,
+    usedSkip: r.usedSkip === true,
+    retriggersRung: isNumber(r.retriggersRung) ? r.retriggersRung : 0,
+  };
+}
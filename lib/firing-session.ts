@@ -0,0 +1,87 @@
+// ─── Firing Session ──────────────────────────────────────────────────
+// Transition rules and persistence helpers for the FiringSession kept in
+// the alarm store. The session is persisted so that if the app is killed
+// while an alarm is ringing, the next launch reopens alarm-firing with the
+// same challenge chain, stage and start time instead of starting over.
+
+import type { FiringPhase, FiringSession } from './types';
+import { isChallengeType } from '../components/challenges/registry';
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+export const IDLE_SESSION: FiringSession = {
+  phase: 'idle',
+  alarmId: null,
+  ringStartTime: null,
+  challengeStartTime: null,
+  challengeTypes: [],
+  stageIndex: 0,
+  wrongAttempts: 0,
+  elapsedSeconds: null,
+};
+
+/**
+ * Sessions older than this are abandoned on launch rather than resumed —
+ * the alarm has long since stopped ringing natively.
+ */
+export const SESSION_RESUME_WINDOW_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Allowed phase changes. Returning to idle from an active phase abandons
+ * the session without recording it; a new alarm may start ringing while
+ * the previous one is still on the victory screen.
+ */
+const TRANSITIONS: Record<FiringPhase, readonly FiringPhase[]> = {
+  idle: ['ringing'],
+  ringing: ['in-challenge', 'dismissed', 'idle'],
+  'in-challenge': ['dismissed', 'idle'],
+  dismissed: ['idle', 'ringing'],
+};
+
+const PHASES: readonly string[] = Object.keys(TRANSITIONS);
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** Whether a session may move from `from` to `to`. */
+export function canTransition(from: FiringPhase, to: FiringPhase): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** Ringing or in a challenge — the alarm still needs dismissing */
+export function isSessionActive(session: FiringSession): boolean {
+  return session.phase === 'ringing' || session.phase === 'in-challenge';
+}
+
+/** Whether an active session is recent enough to reopen on launch. */
+export function isSessionResumable(session: FiringSession, now: number): boolean {
+  if (!isSessionActive(session) || session.ringStartTime === null) return false;
+  return now - session.ringStartTime < SESSION_RESUME_WINDOW_MS;
+}
+
+/**
+ * Validate a persisted session, falling back to idle for anything
+ * malformed. Used when rehydrating the store.
+ */
+export function parseFiringSession(raw: unknown): FiringSession {
+  if (!raw || typeof raw !== 'object') return { ...IDLE_SESSION };
+  const s = raw as Record<string, unknown>;
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  const numberOrNull = (v: unknown): number | null => (isNumber(v) ? v : null);
+
+  if (typeof s.phase !== 'string' || !PHASES.includes(s.phase)) return { ...IDLE_SESSION };
+
+  return {
+    phase: s.phase as FiringPhase,
+    alarmId: typeof s.alarmId === 'string' ? s.alarmId : null,
+    ringStartTime: numberOrNull(s.ringStartTime),
+    challengeStartTime: numberOrNull(s.challengeStartTime),
+    // A chain naming an unregistered challenge can't be resumed as it was
+    challengeTypes:
+      Array.isArray(s.challengeTypes) && s.challengeTypes.every(isChallengeType)
+        ? s.challengeTypes
+        : [],
+    stageIndex: isNumber(s.stageIndex) ? Math.max(0, Math.floor(s.stageIndex)) : 0,
+    wrongAttempts: isNumber(s.wrongAttempts) ? s.wrongAttempts : 0,
+    elapsedSeconds: numberOrNull(s.elapsedSeconds),
+  };
+}
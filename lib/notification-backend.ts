@@ -0,0 +1,282 @@
+// ─── Notification Alarm Backend ──────────────────────────────────────
+// AlarmBackend for platforms without AlarmKit (Android, iOS before 26).
+// Alarms and re-triggers are scheduled as local notifications carrying the
+// alarm's sound; tapping one — or one arriving while the app is open —
+// hands its UUID to getLaunchAlarmId and notifies launch listeners, so
+// _layout.tsx opens alarm-firing the same way it does for AlarmKit.
+//
+// Unlike AlarmKit, a notification plays its sound once and can be swiped
+// away, so re-triggers carry more of the load here.
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { AlarmBackend, AuthorizationStatus, ScheduleResult } from './alarm-backend';
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Key in a notification's data holding the native alarm UUID */
+const ALARM_UUID_KEY = 'alarmUUID';
+
+/** Notification identifier for one weekday of a recurring alarm */
+function weekdayIdentifier(id: string, weekday: number): string {
+  return `${id}:${weekday}`;
+}
+
+/** The alarm UUID a notification was scheduled for, if it's one of ours */
+function getAlarmUUID(request: Notifications.NotificationRequest): string | null {
+  const value = request.content.data?.[ALARM_UUID_KEY];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Android plays a channel's sound rather than the notification's, so each
+ * alarm sound gets its own channel, routed through the alarm audio stream.
+ */
+function getChannelId(soundName: string): string {
+  return `wake-alarm-${soundName}`;
+}
+
+function toAuthorizationStatus(
+  permissions: Notifications.NotificationPermissionsStatus,
+): AuthorizationStatus {
+  if (permissions.granted) return 'authorized';
+  return permissions.status === 'undetermined' ? 'notDetermined' : 'denied';
+}
+
+// ─── Backend ─────────────────────────────────────────────────────────
+
+export class NotificationAlarmBackend implements AlarmBackend {
+  private authorizationStatus: AuthorizationStatus = 'notDetermined';
+  private launchAlarmId: string | null = null;
+  private readonly launchListeners = new Set<() => void>();
+  private readonly channels = new Map<string, Promise<void>>();
+  /** The last notification handed to launch listeners, to ignore repeats */
+  private lastLaunchKey: string | null = null;
+
+  constructor() {
+    // The firing screen plays the sound itself, so alarms arriving in the
+    // foreground open it instead of showing a banner
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const isAlarm = getAlarmUUID(notification.request) !== null;
+        return {
+          shouldShowBanner: !isAlarm,
+          shouldShowList: true,
+          shouldPlaySound: !isAlarm,
+          shouldSetBadge: false,
+        };
+      },
+    });
+
+    Notifications.addNotificationReceivedListener((notification) => {
+      this.handleLaunch(notification);
+    });
+    Notifications.addNotificationResponseReceivedListener((response) => {
+      this.handleLaunch(response.notification);
+    });
+
+    // A tap that cold-started the app arrived before these listeners
+    const initial = Notifications.getLastNotificationResponse();
+    if (initial) {
+      this.handleLaunch(initial.notification);
+      Notifications.clearLastNotificationResponse();
+    }
+
+    Notifications.getPermissionsAsync()
+      .then((permissions) => {
+        this.authorizationStatus = toAuthorizationStatus(permissions);
+      })
+      .catch((e: unknown) => {
+        console.warn('[NotificationBackend] Failed to read permissions:', e);
+      });
+  }
+
+  // ── AlarmBackend ───────────────────────────────────────────────────
+
+  async requestAuthorization(): Promise<AuthorizationStatus> {
+    try {
+      const permissions = await Notifications.requestPermissionsAsync();
+      this.authorizationStatus = toAuthorizationStatus(permissions);
+    } catch (e) {
+      console.warn('[NotificationBackend] Permission request failed:', e);
+    }
+    return this.authorizationStatus;
+  }
+
+  getAuthorizationStatus(): AuthorizationStatus {
+    return this.authorizationStatus;
+  }
+
+  async scheduleFixedAlarm(
+    id: string,
+    timestamp: number,
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult> {
+    if (timestamp <= Date.now()) {
+      return { status: 'invalid', message: 'The alarm time has passed.' };
+    }
+    return this.schedule(id, soundName, title, [
+      {
+        identifier: id,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: timestamp,
+          channelId: getChannelId(soundName),
+        },
+      },
+    ]);
+  }
+
+  async scheduleRecurringAlarm(
+    id: string,
+    hour: number,
+    minute: number,
+    weekdays: number[],
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult> {
+    if (weekdays.length === 0) {
+      return { status: 'invalid', message: 'No weekdays given.' };
+    }
+    // Notification weekdays use the same convention as AlarmKit: 1=Sun ... 7=Sat
+    return this.schedule(
+      id,
+      soundName,
+      title,
+      weekdays.map((weekday) => ({
+        identifier: weekdayIdentifier(id, weekday),
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+          weekday,
+          hour,
+          minute,
+          channelId: getChannelId(soundName),
+        },
+      })),
+    );
+  }
+
+  async cancelAlarm(id: string): Promise<boolean> {
+    try {
+      const requests = await Notifications.getAllScheduledNotificationsAsync();
+      const matching = requests.filter((request) => getAlarmUUID(request) === id);
+      for (const request of matching) {
+        await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      }
+      return matching.length > 0;
+    } catch (e) {
+      console.warn('[NotificationBackend] Cancel error:', e);
+      return false;
+    }
+  }
+
+  async cancelAllAlarms(): Promise<boolean> {
+    try {
+      await Notifications.cancelAllScheduledNotificationsAsync();
+      return true;
+    } catch (e) {
+      console.warn('[NotificationBackend] Cancel all error:', e);
+      return false;
+    }
+  }
+
+  async listScheduledAlarms(): Promise<string[]> {
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+    const ids = new Set<string>();
+    for (const request of requests) {
+      const id = getAlarmUUID(request);
+      if (id) ids.add(id.toLowerCase());
+    }
+    return Array.from(ids);
+  }
+
+  getLaunchAlarmId(): string | null {
+    const id = this.launchAlarmId;
+    this.launchAlarmId = null;
+    return id;
+  }
+
+  addLaunchListener(listener: () => void): () => void {
+    this.launchListeners.add(listener);
+    return () => {
+      this.launchListeners.delete(listener);
+    };
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  /**
+   * Schedule the notifications making up one alarm. If any fails, the ones
+   * already scheduled are cancelled so the alarm isn't left half-set.
+   */
+  private async schedule(
+    id: string,
+    soundName: string,
+    title: string,
+    requests: { identifier: string; trigger: Notifications.NotificationTriggerInput }[],
+  ): Promise<ScheduleResult> {
+    if (this.authorizationStatus !== 'authorized') return { status: 'permission-denied' };
+
+    try {
+      await this.ensureChannel(soundName);
+      for (const { identifier, trigger } of requests) {
+        await Notifications.scheduleNotificationAsync({
+          identifier,
+          content: {
+            title,
+            body: 'Open WAKE to turn it off',
+            sound: `${soundName}.mp3`,
+            data: { [ALARM_UUID_KEY]: id },
+            priority: Notifications.AndroidNotificationPriority.MAX,
+            interruptionLevel: 'timeSensitive',
+            sticky: true,
+          },
+          trigger,
+        });
+      }
+      return { status: 'scheduled' };
+    } catch (e) {
+      await this.cancelAlarm(id);
+      return { status: 'native-error', message: e instanceof Error ? e.message : String(e) };
+    }
+  }
+
+  /** Create the Android channel for a sound once per launch. */
+  private ensureChannel(soundName: string): Promise<void> {
+    if (Platform.OS !== 'android') return Promise.resolve();
+
+    let ready = this.channels.get(soundName);
+    if (!ready) {
+      ready = Notifications.setNotificationChannelAsync(getChannelId(soundName), {
+        name: `Alarm (${soundName})`,
+        importance: Notifications.AndroidImportance.MAX,
+        sound: `${soundName}.mp3`,
+        audioAttributes: {
+          usage: Notifications.AndroidAudioUsage.ALARM,
+          contentType: Notifications.AndroidAudioContentType.SONIFICATION,
+        },
+        vibrationPattern: [0, 500, 500, 500],
+        bypassDnd: true,
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+      }).then(() => undefined);
+      // Retry on the next schedule if creation failed
+      ready.catch(() => this.channels.delete(soundName));
+      this.channels.set(soundName, ready);
+    }
+    return ready;
+  }
+
+  /** Record an alarm notification as the launch alarm and tell listeners. */
+  private handleLaunch(notification: Notifications.Notification): void {
+    const id = getAlarmUUID(notification.request);
+    if (!id) return;
+
+    const key = `${notification.request.identifier}@${notification.date}`;
+    if (key === this.lastLaunchKey) return;
+    this.lastLaunchKey = key;
+
+    this.launchAlarmId = id;
+    for (const listener of this.launchListeners) listener();
+  }
+}
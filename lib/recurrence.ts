@@ -0,0 +1,447 @@
+// ─── Recurrence Engine ───────────────────────────────────────────────
+// Pure next-occurrence math for alarms. All calendar reasoning happens on
+// civil dates (year/month/day) in an explicit IANA time zone, and is only
+// converted to an absolute instant at the end — so a 07:00 alarm stays at
+// 07:00 local across DST changes instead of drifting by an hour.
+//
+// DST rules, matching how the system clock app behaves:
+// - Gap (spring forward): a wall time that doesn't exist, e.g. 02:30 when
+//   clocks jump 02:00 → 03:00, fires at the same offset past the transition
+//   (03:30).
+// - Overlap (fall back): a wall time that occurs twice fires at the first
+//   (earlier) instance only.
+//
+// An alarm repeats on a weekly mask (`enabledDays`), or on a rotation — a
+// cycle of days counted from an anchor date — when it has one.
+
+import type { Alarm, RotationRecurrence } from './types';
+import { DAYS_OF_WEEK } from './constants';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A calendar date with no time zone attached. Month is 1–12. */
+export interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** Wall-clock fields of an instant as seen in a particular time zone */
+export interface ZonedParts extends CivilDate {
+  hour: number;
+  minute: number;
+  /** 0=Mon ... 6=Sun, matching `Alarm.enabledDays` */
+  dayIndex: number;
+}
+
+/**
+ * How the rotation editor reads a cycle: whole weeks starting on a Monday,
+ * each with its own days, or a run of days on followed by days off.
+ */
+export type RotationShape =
+  | { kind: 'weeks'; weeks: boolean[][] }
+  | { kind: 'on-off'; on: number; off: number };
+
+export interface OccurrenceOptions {
+  /** Occurrences strictly after this instant (epoch ms) are returned */
+  from: number;
+  /** IANA time zone; defaults to the device zone */
+  timeZone?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/** How far ahead (or back) to search before giving up on finding an occurrence */
+const MAX_SEARCH_DAYS = 400;
+
+const MONTH_ABBREVIATIONS = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+] as const;
+
+// ─── Time Zone Primitives ────────────────────────────────────────────
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** The device's IANA time zone, e.g. "America/New_York" */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Wall-clock fields of `instant` in `timeZone`. */
+export function getZonedParts(instant: number, timeZone: string): ZonedParts {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') fields[part.type] = parseInt(part.value, 10);
+  }
+  const date: CivilDate = { year: fields.year, month: fields.month, day: fields.day };
+  return {
+    ...date,
+    hour: fields.hour % 24,
+    minute: fields.minute,
+    dayIndex: getDayIndex(date),
+  };
+}
+
+/** Offset of `timeZone` from UTC at `instant`, in ms (positive east of UTC). */
+function getOffset(instant: number, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const wallAsUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return wallAsUTC - Math.floor(instant / MS_PER_MINUTE) * MS_PER_MINUTE;
+}
+
+/**
+ * Convert a wall-clock time on a civil date in `timeZone` to an instant,
+ * resolving DST gaps forward and overlaps to the earlier instance.
+ */
+export function zonedTimeToInstant(
+  date: CivilDate,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): number {
+  const wallAsUTC = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+
+  // The offsets a day either side bracket any transition near this wall time
+  const offsetBefore = getOffset(wallAsUTC - MS_PER_DAY, timeZone);
+  const offsetAfter = getOffset(wallAsUTC + MS_PER_DAY, timeZone);
+
+  const candidates = [wallAsUTC - offsetBefore, wallAsUTC - offsetAfter]
+    .filter((instant) => {
+      const p = getZonedParts(instant, timeZone);
+      return (
+        p.year === date.year &&
+        p.month === date.month &&
+        p.day === date.day &&
+        p.hour === hour &&
+        p.minute === minute
+      );
+    })
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) return candidates[0];
+
+  // Gap: the wall time was skipped. Interpreting it with the pre-transition
+  // offset lands the same distance past the jump (02:30 → 03:30)
+  return wallAsUTC - offsetBefore;
+}
+
+// ─── Civil Date Helpers ──────────────────────────────────────────────
+
+/** Add whole days to a civil date. */
+export function addDays(date: CivilDate, days: number): CivilDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/** Parse a "YYYY-MM-DD" string. Returns null if malformed. */
+export function parseISODate(value: string): CivilDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  const check = addDays(date, 0);
+  if (check.month !== date.month || check.day !== date.day) return null;
+  return date;
+}
+
+/** Format a civil date as "YYYY-MM-DD". */
+export function toISODate(date: CivilDate): string {
+  const m = String(date.month).padStart(2, '0');
+  const d = String(date.day).padStart(2, '0');
+  return `${date.year}-${m}-${d}`;
+}
+
+/** Short display label, e.g. "Tue Oct 21" */
+export function formatShortDate(date: CivilDate): string {
+  return `${DAYS_OF_WEEK[getDayIndex(date)]} ${MONTH_ABBREVIATIONS[date.month - 1]} ${date.day}`;
+}
+
+/** The civil date at `instant` in `timeZone` (defaults to the device zone). */
+export function getCivilDate(instant: number, timeZone: string = getDeviceTimeZone()): CivilDate {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return { year, month, day };
+}
+
+/** 0=Mon ... 6=Sun for a civil date. */
+export function getDayIndex(date: CivilDate): number {
+  const jsDay = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  return jsDay === 0 ? 6 : jsDay - 1;
+}
+
+/** Whole days from `from` to `to` (negative if `to` is earlier). */
+export function daysBetween(from: CivilDate, to: CivilDate): number {
+  const fromUTC = Date.UTC(from.year, from.month - 1, from.day);
+  const toUTC = Date.UTC(to.year, to.month - 1, to.day);
+  return Math.round((toUTC - fromUTC) / MS_PER_DAY);
+}
+
+/** The Monday on or before a civil date. */
+export function getWeekStart(date: CivilDate): CivilDate {
+  return addDays(date, -getDayIndex(date));
+}
+
+// ─── Occurrence Rules ────────────────────────────────────────────────
+
+/** Whether the alarm is scheduled to ring on the given civil date. */
+export function occursOnDate(alarm: Alarm, date: CivilDate): boolean {
+  if (alarm.date !== undefined) {
+    return alarm.date === toISODate(date);
+  }
+  const repeats = alarm.rotation
+    ? isRotationDay(alarm.rotation, date)
+    : alarm.enabledDays[getDayIndex(date)] === true;
+  return repeats && !isSkippedDate(alarm, date);
+}
+
+/** Whether a rotation has the date as an on day. Nothing before the anchor is. */
+export function isRotationDay(rotation: RotationRecurrence, date: CivilDate): boolean {
+  const anchor = parseISODate(rotation.anchor);
+  if (!anchor || rotation.pattern.length === 0) return false;
+  const offset = daysBetween(anchor, date);
+  return offset >= 0 && rotation.pattern[offset % rotation.pattern.length] === true;
+}
+
+/** Whether the date is one of the alarm's skip dates. */
+export function isSkippedDate(alarm: Alarm, date: CivilDate): boolean {
+  return alarm.skipDates?.includes(toISODate(date)) ?? false;
+}
+
+/** One-shot alarms ring on a single date; weekly alarms repeat */
+export function isOneTimeAlarm(alarm: Alarm): boolean {
+  return alarm.date !== undefined;
+}
+
+/** Repeating alarms that follow a rotation instead of the weekly mask */
+export function isRotationAlarm(alarm: Alarm): boolean {
+  return alarm.date === undefined && alarm.rotation !== undefined;
+}
+
+/** The instant a one-shot alarm rings, regardless of whether it has passed. */
+function getOneTimeInstant(alarm: Alarm, timeZone: string): number | null {
+  const date = alarm.date !== undefined ? parseISODate(alarm.date) : null;
+  if (!date) return null;
+  return zonedTimeToInstant(date, alarm.time.hour, alarm.time.minute, timeZone);
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * The next `count` instants (epoch ms) the alarm rings strictly after
+ * `options.from`, in ascending order. Returns fewer if the alarm has no
+ * more occurrences within the search horizon.
+ */
+export function getNextOccurrences(
+  alarm: Alarm,
+  count: number,
+  options: OccurrenceOptions,
+): number[] {
+  const timeZone = options.timeZone ?? getDeviceTimeZone();
+
+  // One-shot dates can be any distance away, so skip the day-by-day search
+  if (isOneTimeAlarm(alarm)) {
+    const instant = getOneTimeInstant(alarm, timeZone);
+    return instant !== null && instant > options.from && count > 0 ? [instant] : [];
+  }
+
+  const start = getZonedParts(options.from, timeZone);
+  const occurrences: number[] = [];
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS && occurrences.length < count; offset++) {
+    const date = addDays(start, offset);
+    if (!occursOnDate(alarm, date)) continue;
+
+    const instant = zonedTimeToInstant(date, alarm.time.hour, alarm.time.minute, timeZone);
+    if (instant > options.from) occurrences.push(instant);
+  }
+
+  return occurrences;
+}
+
+/** The next instant the alarm rings strictly after `options.from`, or null. */
+export function getNextOccurrence(alarm: Alarm, options: OccurrenceOptions): number | null {
+  return getNextOccurrences(alarm, 1, options)[0] ?? null;
+}
+
+/**
+ * The most recent instant the alarm rang at or before `options.from`, or
+ * null. Used to work out which occurrence is ringing right now.
+ */
+export function getPreviousOccurrence(alarm: Alarm, options: OccurrenceOptions): number | null {
+  const timeZone = options.timeZone ?? getDeviceTimeZone();
+
+  if (isOneTimeAlarm(alarm)) {
+    const instant = getOneTimeInstant(alarm, timeZone);
+    return instant !== null && instant <= options.from ? instant : null;
+  }
+
+  const start = getZonedParts(options.from, timeZone);
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const date = addDays(start, -offset);
+    if (!occursOnDate(alarm, date)) continue;
+
+    const instant = zonedTimeToInstant(date, alarm.time.hour, alarm.time.minute, timeZone);
+    if (instant <= options.from) return instant;
+  }
+
+  return null;
+}
+
+// ─── Skip Dates ──────────────────────────────────────────────────────
+
+/**
+ * The alarm's skip dates from the civil date at `options.from` on, i.e.
+ * those that can still take effect.
+ */
+export function getUpcomingSkipDates(alarm: Alarm, options: OccurrenceOptions): string[] {
+  const today = toISODate(getCivilDate(options.from, options.timeZone));
+  // ISO dates sort chronologically as strings
+  return (alarm.skipDates ?? []).filter((date) => date >= today);
+}
+
+/**
+ * The date of the next occurrence the alarm would have rung on but is
+ * skipping, if its very next occurrence is skipped. Null otherwise.
+ */
+export function getNextSkippedDate(alarm: Alarm, options: OccurrenceOptions): CivilDate | null {
+  if (isOneTimeAlarm(alarm) || !alarm.skipDates?.length) return null;
+  const unskipped = getNextOccurrence({ ...alarm, skipDates: undefined }, options);
+  if (unskipped === null) return null;
+  const date = getCivilDate(unskipped, options.timeZone);
+  return isSkippedDate(alarm, date) ? date : null;
+}
+
+/**
+ * The dates the alarm rings on in the calendar week (Mon–Sun) after the
+ * one containing `options.from`, ignoring existing skips — what "skip all
+ * of next week" skips.
+ */
+export function getNextWeekDates(alarm: Alarm, options: OccurrenceOptions): string[] {
+  const today = getCivilDate(options.from, options.timeZone);
+  const monday = addDays(getWeekStart(today), 7);
+  const unskipped: Alarm = { ...alarm, skipDates: undefined };
+  const dates: string[] = [];
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(monday, offset);
+    if (occursOnDate(unskipped, date)) dates.push(toISODate(date));
+  }
+  return dates;
+}
+
+// ─── Rotations ───────────────────────────────────────────────────────
+
+/**
+ * A rotation of whole weeks: the cycle starts on the Monday of `start`'s
+ * week, and `weeks` holds each week's Mon–Sun days. One week on, one
+ * week empty is "every other week".
+ */
+export function buildWeeksRotation(start: CivilDate, weeks: boolean[][]): RotationRecurrence {
+  return { kind: 'weeks', anchor: toISODate(getWeekStart(start)), pattern: weeks.flat() };
+}
+
+/** `on` days ringing then `off` days silent, starting on `start` */
+export function buildOnOffRotation(start: CivilDate, on: number, off: number): RotationRecurrence {
+  return {
+    kind: 'on-off',
+    anchor: toISODate(start),
+    pattern: [...Array<boolean>(on).fill(true), ...Array<boolean>(off).fill(false)],
+  };
+}
+
+/**
+ * Read a rotation back as the editor built it, by its kind: weeks splits
+ * the cycle into Mon–Sun weeks; on/off reads its leading run of on days.
+ */
+export function getRotationShape(rotation: RotationRecurrence): RotationShape {
+  const { pattern } = rotation;
+  if (rotation.kind === 'weeks') {
+    const weeks: boolean[][] = [];
+    for (let i = 0; i < pattern.length; i += 7) weeks.push(pattern.slice(i, i + 7));
+    return { kind: 'weeks', weeks };
+  }
+  const firstOff = pattern.indexOf(false);
+  const on = firstOff === -1 ? pattern.length : firstOff;
+  return { kind: 'on-off', on, off: pattern.length - on };
+}
+
+/**
+ * The Mon–Sun mask a weekly repeat would need to ring exactly when the
+ * alarm does from `options.from` on, or null if no mask can: a rotation
+ * whose weeks differ, or that hasn't started yet. Weekly alarms return
+ * their enabledDays; one-shot alarms return null.
+ */
+export function getWeeklyRepeatDays(alarm: Alarm, options: OccurrenceOptions): boolean[] | null {
+  if (isOneTimeAlarm(alarm)) return null;
+  if (!alarm.rotation) return alarm.enabledDays;
+
+  const { pattern } = alarm.rotation;
+  const anchor = parseISODate(alarm.rotation.anchor);
+  if (!anchor || pattern.length === 0 || pattern.length % 7 !== 0) return null;
+  if (daysBetween(anchor, getCivilDate(options.from, options.timeZone)) < 0) return null;
+  if (pattern.some((on, i) => on !== pattern[i % 7])) return null;
+
+  const days = [false, false, false, false, false, false, false];
+  for (let i = 0; i < 7; i++) days[getDayIndex(addDays(anchor, i))] = pattern[i];
+  return days;
+}
+
+/** Short uppercase label, e.g. "EVERY 2 WEEKS · M W F" or "4 ON · 4 OFF" */
+export function formatRotation(rotation: RotationRecurrence): string {
+  const shape = getRotationShape(rotation);
+  if (shape.kind === 'on-off') return `${shape.on} ON · ${shape.off} OFF`;
+
+  const [first, ...rest] = shape.weeks;
+  const letters = first
+    .map((on, i) => (on ? DAYS_OF_WEEK[i][0] : null))
+    .filter(Boolean)
+    .join(' ');
+  if (rest.length === 0) return `EVERY WEEK · ${letters}`;
+  if (rest.every((week) => !week.some(Boolean))) {
+    return `EVERY ${shape.weeks.length} WEEKS · ${letters}`;
+  }
+  return `${shape.weeks.length}-WEEK ROTATION`;
+}
+
+/**
+ * Re-trigger instants following an occurrence. These are spaced in absolute
+ * time rather than wall time: once an alarm is ringing, "2 minutes later"
+ * means 2 real minutes even if a DST transition happens in between.
+ *
+ * The first gap is `intervalMs`; each later gap shrinks by `decreaseMs`,
+ * never below `minIntervalMs`.
+ */
+export function getRetriggerTimes(
+  occurrence: number,
+  count: number,
+  intervalMs: number,
+  decreaseMs = 0,
+  minIntervalMs = 60 * 1000,
+): number[] {
+  const times: number[] = [];
+  let time = occurrence;
+  for (let i = 0; i < count; i++) {
+    time += Math.max(minIntervalMs, intervalMs - i * decreaseMs);
+    times.push(time);
+  }
+  return times;
+}
@@ -0,0 +1,155 @@
+// ─── Simulated Alarm Backend ─────────────────────────────────────────
+// Fully in-memory AlarmBackend driven by a VirtualClock. Advancing the clock
+// fires every alarm that came due, records the firing, and leaves the fired
+// UUID for getLaunchAlarmId — as if the user tapped "Open WAKE" on the lock
+// screen. Lets the schedule → fire → launch → dismiss flow run off-device.
+
+import type { AlarmBackend, AuthorizationStatus, ScheduleResult } from './alarm-backend';
+import type { VirtualClock } from './clock';
+import { nextRecurringFire } from './timed-alarms';
+import type { TimedAlarm } from './timed-alarms';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A single recorded firing */
+export interface SimulatedFiring {
+  id: string;
+  firedAt: number;
+  soundName: string;
+  title: string;
+}
+
+// ─── Backend ─────────────────────────────────────────────────────────
+
+export class SimulatedAlarmBackend implements AlarmBackend {
+  /** Status returned by requestAuthorization / getAuthorizationStatus */
+  authorizationStatus: AuthorizationStatus = 'authorized';
+
+  /** Every firing so far, oldest first */
+  readonly firings: SimulatedFiring[] = [];
+
+  private alarms = new Map<string, TimedAlarm>();
+  private launchAlarmId: string | null = null;
+  private unsubscribe: () => void;
+
+  constructor(private readonly clock: VirtualClock) {
+    this.unsubscribe = clock.subscribe(() => {
+      this.fireDueAlarms();
+    });
+  }
+
+  // ── AlarmBackend ───────────────────────────────────────────────────
+
+  async requestAuthorization(): Promise<AuthorizationStatus> {
+    return this.authorizationStatus;
+  }
+
+  getAuthorizationStatus(): AuthorizationStatus {
+    return this.authorizationStatus;
+  }
+
+  async scheduleFixedAlarm(
+    id: string,
+    timestamp: number,
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult> {
+    if (this.authorizationStatus !== 'authorized') return { status: 'permission-denied' };
+    this.alarms.set(id, {
+      id,
+      schedule: { kind: 'fixed', timestamp },
+      soundName,
+      title,
+      nextFireAt: timestamp > this.clock.now() ? timestamp : null,
+    });
+    return { status: 'scheduled' };
+  }
+
+  async scheduleRecurringAlarm(
+    id: string,
+    hour: number,
+    minute: number,
+    weekdays: number[],
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult> {
+    if (this.authorizationStatus !== 'authorized') return { status: 'permission-denied' };
+    this.alarms.set(id, {
+      id,
+      schedule: { kind: 'recurring', hour, minute, weekdays: [...weekdays] },
+      soundName,
+      title,
+      nextFireAt: nextRecurringFire(hour, minute, weekdays, this.clock.now()),
+    });
+    return { status: 'scheduled' };
+  }
+
+  async cancelAlarm(id: string): Promise<boolean> {
+    return this.alarms.delete(id);
+  }
+
+  async cancelAllAlarms(): Promise<boolean> {
+    this.alarms.clear();
+    return true;
+  }
+
+  async listScheduledAlarms(): Promise<string[]> {
+    return Array.from(this.alarms.keys());
+  }
+
+  getLaunchAlarmId(): string | null {
+    const id = this.launchAlarmId;
+    this.launchAlarmId = null;
+    return id;
+  }
+
+  // ── Simulation controls ────────────────────────────────────────────
+
+  /** Snapshot of every scheduled alarm, soonest first */
+  getScheduledAlarms(): TimedAlarm[] {
+    return Array.from(this.alarms.values())
+      .map((a) => ({ ...a }))
+      .sort((a, b) => (a.nextFireAt ?? Infinity) - (b.nextFireAt ?? Infinity));
+  }
+
+  /**
+   * Fire every alarm due at or before the clock's current time, in time
+   * order. Fixed alarms are removed once fired; recurring alarms roll to
+   * their next occurrence. The last alarm fired becomes the launch ID.
+   * Called automatically whenever the clock moves.
+   */
+  fireDueAlarms(): SimulatedFiring[] {
+    const current = this.clock.now();
+    const fired: SimulatedFiring[] = [];
+
+    for (;;) {
+      let due: TimedAlarm | null = null;
+      for (const alarm of this.alarms.values()) {
+        if (alarm.nextFireAt === null || alarm.nextFireAt > current) continue;
+        if (!due || alarm.nextFireAt < (due.nextFireAt as number)) due = alarm;
+      }
+      if (!due) break;
+
+      const firedAt = due.nextFireAt as number;
+      fired.push({ id: due.id, firedAt, soundName: due.soundName, title: due.title });
+
+      if (due.schedule.kind === 'fixed') {
+        this.alarms.delete(due.id);
+      } else {
+        const { hour, minute, weekdays } = due.schedule;
+        due.nextFireAt = nextRecurringFire(hour, minute, weekdays, firedAt);
+      }
+    }
+
+    if (fired.length > 0) {
+      this.firings.push(...fired);
+      this.launchAlarmId = fired[fired.length - 1].id;
+    }
+    return fired;
+  }
+
+  /** Stop listening to the clock. */
+  dispose(): void {
+    this.unsubscribe();
+  }
+}
@@ -0,0 +1,191 @@
+// ─── Store Backups ───────────────────────────────────────────────────
+// AsyncStorage wrapper for the alarm store that keeps rolling snapshots.
+//
+// Every successful write of the store is also copied to a timestamped key
+// (`wake-alarm-backup:<ms>`), keeping the last MAX_BACKUPS. Writes close
+// together replace the newest snapshot instead of adding one, so a burst
+// of updates (e.g. during a firing session) doesn't push older backups out
+// — unless the write has fewer alarms, so deleting alarms never replaces
+// the last snapshot that still had them.
+//
+// On hydrate, a stored value that can't be parsed is set aside under its
+// own key and reported through getCorruptState(); the store starts empty
+// and snapshots pause until the user restores a backup or starts fresh,
+// so the good backups aren't rotated away by the empty state.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { StateStorage } from 'zustand/middleware';
+import { now as currentTime } from './clock';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface BackupInfo {
+  /** AsyncStorage key holding the snapshot */
+  key: string;
+  /** When the snapshot was written (epoch ms) */
+  savedAt: number;
+  alarmCount: number;
+}
+
+export interface CorruptState {
+  detectedAt: number;
+  /** The unparseable value, also kept under CORRUPT_STATE_KEY */
+  raw: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** AsyncStorage key of the persisted alarm store */
+export const STORE_KEY = 'wake-alarm-storage';
+
+const BACKUP_INDEX_KEY = 'wake-alarm-backups';
+const BACKUP_KEY_PREFIX = 'wake-alarm-backup:';
+const CORRUPT_STATE_KEY = 'wake-alarm-storage-corrupt';
+
+const MAX_BACKUPS = 10;
+
+/** Writes within this window of the newest snapshot replace it, unless alarms were removed */
+const BACKUP_COALESCE_MS = 5 * 60 * 1000; // 5 minutes
+
+// ─── Module State ────────────────────────────────────────────────────
+
+let corruptState: CorruptState | null = null;
+let lastSnapshotValue: string | null = null;
+
+// Snapshot writes touch the shared index, so they run one at a time
+let snapshotQueue: Promise<void> = Promise.resolve();
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Whether a stored value is a zustand persist payload: `{ state: {...}, version }` */
+function isParseableState(raw: string): boolean {
+  try {
+    const parsed = JSON.parse(raw);
+    return (
+      !!parsed &&
+      typeof parsed === 'object' &&
+      !!parsed.state &&
+      typeof parsed.state === 'object'
+    );
+  } catch {
+    return false;
+  }
+}
+
+function countAlarms(raw: string): number {
+  try {
+    const alarms = JSON.parse(raw)?.state?.alarms;
+    return Array.isArray(alarms) ? alarms.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+async function loadIndex(): Promise<BackupInfo[]> {
+  try {
+    const raw = await AsyncStorage.getItem(BACKUP_INDEX_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as BackupInfo[]) : [];
+  } catch (e) {
+    console.warn('[StoreBackups] Failed to load backup index:', e);
+    return [];
+  }
+}
+
+async function writeSnapshot(value: string): Promise<void> {
+  if (value === lastSnapshotValue) return;
+
+  try {
+    let index = await loadIndex();
+    const newest = index[0];
+    // Keys are made from savedAt, so two writes in one millisecond get
+    // distinct times rather than one overwriting the other's snapshot
+    const savedAt = newest ? Math.max(currentTime(), newest.savedAt + 1) : currentTime();
+
+    const info: BackupInfo = {
+      key: `${BACKUP_KEY_PREFIX}${savedAt}`,
+      savedAt,
+      alarmCount: countAlarms(value),
+    };
+
+    // Coalesce with the newest snapshot if it's recent and nothing was removed
+    if (
+      newest &&
+      savedAt - newest.savedAt < BACKUP_COALESCE_MS &&
+      info.alarmCount >= newest.alarmCount
+    ) {
+      await AsyncStorage.removeItem(newest.key);
+      index = index.slice(1);
+    }
+    await AsyncStorage.setItem(info.key, value);
+    index = [info, ...index];
+
+    const expired = index.slice(MAX_BACKUPS);
+    if (expired.length > 0) {
+      await AsyncStorage.multiRemove(expired.map((b) => b.key));
+    }
+    await AsyncStorage.setItem(BACKUP_INDEX_KEY, JSON.stringify(index.slice(0, MAX_BACKUPS)));
+    lastSnapshotValue = value;
+  } catch (e) {
+    console.warn('[StoreBackups] Failed to write snapshot:', e);
+  }
+}
+
+// ─── Storage ─────────────────────────────────────────────────────────
+
+/** StateStorage for zustand `persist`: AsyncStorage plus snapshots and corruption checks. */
+export const backupStorage: StateStorage = {
+  getItem: async (name) => {
+    const raw = await AsyncStorage.getItem(name);
+    if (raw === null || name !== STORE_KEY || isParseableState(raw)) return raw;
+
+    console.warn('[StoreBackups] Stored alarm data is unreadable; setting it aside.');
+    corruptState = { detectedAt: currentTime(), raw };
+    try {
+      await AsyncStorage.setItem(CORRUPT_STATE_KEY, raw);
+    } catch (e) {
+      console.warn('[StoreBackups] Failed to save unreadable data:', e);
+    }
+    return null;
+  },
+
+  setItem: async (name, value) => {
+    await AsyncStorage.setItem(name, value);
+    if (name !== STORE_KEY || corruptState) return;
+    snapshotQueue = snapshotQueue.then(() => writeSnapshot(value));
+  },
+
+  removeItem: (name) => AsyncStorage.removeItem(name),
+};
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** Unreadable store data found during this launch's hydrate, if any. */
+export function getCorruptState(): CorruptState | null {
+  return corruptState;
+}
+
+/**
+ * Stop treating the store as corrupt (after a restore, or when the user
+ * chooses to start fresh) so snapshots resume.
+ */
+export function clearCorruptState(): void {
+  corruptState = null;
+}
+
+/** Available snapshots, newest first. */
+export async function listBackups(): Promise<BackupInfo[]> {
+  await snapshotQueue;
+  return loadIndex();
+}
+
+/** The raw stored value of a snapshot, or null if missing or unreadable. */
+export async function readBackup(key: string): Promise<string | null> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw !== null && isParseableState(raw) ? raw : null;
+  } catch (e) {
+    console.warn('[StoreBackups] Failed to read backup:', e);
+    return null;
+  }
+}
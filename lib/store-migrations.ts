@@ -0,0 +1,413 @@
+// ─── Store Migrations ────────────────────────────────────────────────
+// Versioning and validation for the persisted alarm store.
+//
+// Every change to the persisted shape bumps STORE_VERSION and adds one
+// step to MIGRATIONS, keyed by the version it upgrades *from*. zustand's
+// `persist` runs the chain from the stored version up to the current one.
+// After migrating (and on every hydrate, since a stored state at the
+// current version can still be damaged) each field is validated:
+// recoverable problems are repaired, and alarms that can't be repaired are
+// moved to `quarantine` with a reason instead of being silently dropped.
+
+import type {
+  Alarm,
+  ChallengeConfig,
+  ChallengeStage,
+  DismissalRecord,
+  FiringSession,
+  QuarantinedAlarm,
+  RetriggerPolicy,
+  RotationRecurrence,
+  SoundKey,
+} from './types';
+import { now as currentTime } from './clock';
+import { parseISODate } from './recurrence';
+import { parseDismissalRecord } from './dismissal-history';
+import { parseFiringSession } from './firing-session';
+import { parsePausedUntil } from './vacation-mode';
+import { isChallengeType } from '../components/challenges/registry';
+import {
+  ALARM_TEXT_LIMITS,
+  CHALLENGE_LIMITS,
+  DEFAULT_CHALLENGE_CONFIG,
+  DEFAULT_RETRIGGER_POLICY,
+  RETRIGGER_LIMITS,
+  ROTATION_LIMITS,
+} from './constants';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** The slice of the store written to AsyncStorage */
+export interface PersistedState {
+  alarms: Alarm[];
+  history: DismissalRecord[];
+  session: FiringSession;
+  quarantine: QuarantinedAlarm[];
+  /** Last day of a vacation pause ("YYYY-MM-DD"), or null */
+  pausedUntil: string | null;
+}
+
+type RawState = Record<string, unknown>;
+type Migration = (state: RawState) => RawState;
+
+type AlarmParseResult = { alarm: Alarm } | { reason: string };
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Version of the persisted shape written by this build */
+export const STORE_VERSION = 5;
+
+/** Oldest quarantined entries are dropped beyond this */
+const MAX_QUARANTINE_ENTRIES = 50;
+
+const DEFAULT_ENABLED_DAYS: boolean[] = [true, true, true, true, true, false, false];
+const DEFAULT_SOUND_CHOICE: SoundKey = 'SIREN';
+
+/** Valid sound keys for validation */
+const VALID_SOUND_KEYS: readonly string[] = ['SIREN', 'PULSE', 'GLASS', 'DRILL', 'HORN'];
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Alarm IDs: base-36 timestamp plus a random suffix */
+export function generateAlarmId(): string {
+  return currentTime().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+function isRecord(value: unknown): value is RawState {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isIntInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/** Trimmed, length-capped text, or undefined if empty or not a string */
+function normalizeText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim().slice(0, maxLength);
+  return text.length > 0 ? text : undefined;
+}
+
+/** Valid "YYYY-MM-DD" dates, de-duplicated and ascending; undefined if none */
+export function normalizeSkipDates(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const dates = value.filter(
+    (date): date is string => typeof date === 'string' && parseISODate(date) !== null,
+  );
+  const unique = Array.from(new Set(dates)).sort();
+  return unique.length > 0 ? unique : undefined;
+}
+
+/**
+ * A rotation with a valid anchor date and a pattern of 1 to maxCycleDays
+ * booleans (whole weeks for a weeks rotation), or null if it's malformed.
+ */
+export function parseRotation(raw: unknown): RotationRecurrence | null {
+  if (!isRecord(raw) || typeof raw.anchor !== 'string' || !parseISODate(raw.anchor)) return null;
+  const { pattern } = raw;
+  if (
+    !Array.isArray(pattern) ||
+    pattern.length === 0 ||
+    pattern.length > ROTATION_LIMITS.maxCycleDays ||
+    !pattern.every((day) => typeof day === 'boolean')
+  ) {
+    return null;
+  }
+  const { kind } = raw;
+  if (kind !== 'weeks' && kind !== 'on-off') return null;
+  if (kind === 'weeks' && pattern.length % 7 !== 0) return null;
+  return { kind, anchor: raw.anchor, pattern: [...pattern] };
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+// ─── Migrations ──────────────────────────────────────────────────────
+
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 → 1: the first release stored a single alarm as top-level fields
+  // (alarmTime, enabledDays, soundChoice, isArmed). Unversioned data may
+  // also already hold an alarms array, which passes through untouched
+  0: (state) => {
+    if (Array.isArray(state.alarms) && !(state.alarms.length === 0 && state.alarmTime)) {
+      return state;
+    }
+    const { alarmTime, enabledDays, soundChoice, isArmed, ...rest } = state;
+    return {
+      ...rest,
+      alarms: [
+        {
+          id: generateAlarmId(),
+          time: alarmTime ?? { hour: 7, minute: 0 },
+          enabledDays: enabledDays ?? DEFAULT_ENABLED_DAYS,
+          soundChoice: soundChoice ?? DEFAULT_SOUND_CHOICE,
+          isArmed: isArmed ?? false,
+        },
+      ],
+    };
+  },
+
+  // 1 → 2: per-alarm challenge config
+  1: (state) => ({
+    ...state,
+    alarms: Array.isArray(state.alarms)
+      ? state.alarms.map((alarm) =>
+          isRecord(alarm) && alarm.challenge === undefined
+            ? { ...alarm, challenge: { ...DEFAULT_CHALLENGE_CONFIG } }
+            : alarm,
+        )
+      : state.alarms,
+  }),
+
+  // 2 → 3: dismissal history and the persisted firing session
+  2: (state) => ({
+    history: [],
+    session: null,
+    ...state,
+  }),
+
+  // 3 → 4: per-alarm re-trigger policy, defaulting to the old fixed
+  // 10 re-triggers two minutes apart
+  3: (state) => ({
+    ...state,
+    alarms: Array.isArray(state.alarms)
+      ? state.alarms.map((alarm) =>
+          isRecord(alarm) && alarm.retrigger === undefined
+            ? { ...alarm, retrigger: { ...DEFAULT_RETRIGGER_POLICY } }
+            : alarm,
+        )
+      : state.alarms,
+  }),
+
+  // 4 → 5: vacation pause
+  4: (state) => ({
+    pausedUntil: null,
+    ...state,
+  }),
+};
+
+/**
+ * Run the migration chain from `fromVersion` up to STORE_VERSION. Passed
+ * to zustand `persist` as `migrate`.
+ */
+export function migratePersistedState(persisted: unknown, fromVersion: number): RawState {
+  let state: RawState = isRecord(persisted) ? persisted : {};
+  for (let version = fromVersion; version < STORE_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (migration) state = migration(state);
+  }
+  return state;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────
+
+/**
+ * Coerce a persisted challenge config into a valid one. Missing configs
+ * get the defaults; malformed types, and type IDs that are no longer
+ * registered, are dropped and out-of-range numbers are clamped.
+ */
+export function normalizeChallengeConfig(raw: unknown): ChallengeConfig {
+  if (!isRecord(raw)) return { ...DEFAULT_CHALLENGE_CONFIG };
+  const config = raw as Partial<Record<keyof ChallengeConfig, unknown>>;
+
+  let types: ChallengeConfig['types'] = 'random';
+  if (Array.isArray(config.types)) {
+    const valid = config.types.filter(isChallengeType);
+    if (valid.length > 0) types = valid;
+  }
+
+  // Chain: 1..maxStages stage IDs; anything else falls back to one random stage
+  let chain: ChallengeConfig['chain'] = [...DEFAULT_CHALLENGE_CONFIG.chain];
+  if (Array.isArray(config.chain)) {
+    const stages = config.chain
+      .filter((stage): stage is ChallengeStage => stage === 'random' || isChallengeType(stage))
+      .slice(0, CHALLENGE_LIMITS.maxStages);
+    if (stages.length > 0) chain = stages;
+  }
+
+  const options: NonNullable<ChallengeConfig['options']> = {};
+  if (isRecord(config.options)) {
+    for (const [id, values] of Object.entries(config.options)) {
+      if (!isChallengeType(id) || !isRecord(values)) continue;
+      const numbers: Record<string, number> = {};
+      for (const [key, value] of Object.entries(values)) {
+        if (typeof value === 'number' && Number.isFinite(value)) numbers[key] = value;
+      }
+      options[id] = numbers;
+    }
+  }
+
+  return {
+    types,
+    chain,
+    difficulty: clampInt(
+      config.difficulty,
+      CHALLENGE_LIMITS.minDifficulty,
+      CHALLENGE_LIMITS.maxDifficulty,
+      DEFAULT_CHALLENGE_CONFIG.difficulty,
+    ),
+    rounds: clampInt(
+      config.rounds,
+      CHALLENGE_LIMITS.minRounds,
+      CHALLENGE_LIMITS.maxRounds,
+      DEFAULT_CHALLENGE_CONFIG.rounds,
+    ),
+    options,
+  };
+}
+
+/**
+ * Coerce a persisted re-trigger policy into a valid one: missing policies
+ * get the defaults, numbers are clamped to RETRIGGER_LIMITS and an
+ * escalation with an unknown sound is dropped.
+ */
+export function normalizeRetriggerPolicy(raw: unknown): RetriggerPolicy {
+  if (!isRecord(raw)) return { ...DEFAULT_RETRIGGER_POLICY };
+
+  const policy: RetriggerPolicy = {
+    count: clampInt(raw.count, 0, RETRIGGER_LIMITS.maxCount, DEFAULT_RETRIGGER_POLICY.count),
+    intervalMinutes: clampInt(
+      raw.intervalMinutes,
+      RETRIGGER_LIMITS.minInterval,
+      RETRIGGER_LIMITS.maxInterval,
+      DEFAULT_RETRIGGER_POLICY.intervalMinutes,
+    ),
+    decreaseMinutes: clampInt(
+      raw.decreaseMinutes,
+      0,
+      RETRIGGER_LIMITS.maxDecrease,
+      DEFAULT_RETRIGGER_POLICY.decreaseMinutes,
+    ),
+  };
+
+  const escalation = raw.escalation;
+  if (
+    isRecord(escalation) &&
+    typeof escalation.sound === 'string' &&
+    VALID_SOUND_KEYS.includes(escalation.sound)
+  ) {
+    policy.escalation = {
+      from: clampInt(escalation.from, 1, RETRIGGER_LIMITS.maxCount, 1),
+      sound: escalation.sound as SoundKey,
+    };
+  }
+
+  return policy;
+}
+
+/**
+ * Validate one persisted alarm. Cosmetic problems (unknown sound, bad
+ * challenge config or re-trigger policy, missing ID, non-boolean isArmed,
+ * overlong label or note) are repaired; a missing or out-of-range time,
+ * malformed repeat days, an invalid one-shot date or a malformed rotation
+ * can't be guessed and fail with a reason.
+ */
+export function parseAlarm(raw: unknown): AlarmParseResult {
+  if (!isRecord(raw)) return { reason: 'not an object' };
+
+  const time = raw.time;
+  if (!isRecord(time) || !isIntInRange(time.hour, 0, 23) || !isIntInRange(time.minute, 0, 59)) {
+    return { reason: 'time missing or out of range' };
+  }
+
+  let date: string | undefined;
+  if (raw.date !== undefined) {
+    if (typeof raw.date !== 'string' || !parseISODate(raw.date)) {
+      return { reason: 'one-shot date is not a valid YYYY-MM-DD date' };
+    }
+    date = raw.date;
+  }
+
+  let rotation: RotationRecurrence | undefined;
+  if (raw.rotation !== undefined) {
+    const parsed = parseRotation(raw.rotation);
+    if (!parsed) return { reason: 'rotation is not a valid anchor date and day pattern' };
+    rotation = parsed;
+  }
+
+  // One-shot and rotation alarms ignore enabledDays, so a bad value there
+  // is harmless
+  let enabledDays: boolean[];
+  if (
+    Array.isArray(raw.enabledDays) &&
+    raw.enabledDays.length === 7 &&
+    raw.enabledDays.every((d) => typeof d === 'boolean')
+  ) {
+    enabledDays = raw.enabledDays;
+  } else if (date !== undefined || rotation !== undefined) {
+    enabledDays = [false, false, false, false, false, false, false];
+  } else {
+    return { reason: 'enabledDays is not 7 booleans' };
+  }
+
+  const soundChoice =
+    typeof raw.soundChoice === 'string' && VALID_SOUND_KEYS.includes(raw.soundChoice)
+      ? (raw.soundChoice as SoundKey)
+      : DEFAULT_SOUND_CHOICE;
+
+  const alarm: Alarm = {
+    id: typeof raw.id === 'string' && raw.id.length > 0 ? raw.id : generateAlarmId(),
+    time: { hour: time.hour, minute: time.minute },
+    enabledDays,
+    soundChoice,
+    challenge: normalizeChallengeConfig(raw.challenge),
+    retrigger: normalizeRetriggerPolicy(raw.retrigger),
+    isArmed: raw.isArmed === true,
+  };
+  if (date !== undefined) alarm.date = date;
+  if (rotation !== undefined) alarm.rotation = rotation;
+
+  const skipDates = normalizeSkipDates(raw.skipDates);
+  if (skipDates !== undefined) alarm.skipDates = skipDates;
+
+  const label = normalizeText(raw.label, ALARM_TEXT_LIMITS.maxLabelLength);
+  if (label !== undefined) alarm.label = label;
+  const note = normalizeText(raw.note, ALARM_TEXT_LIMITS.maxNoteLength);
+  if (note !== undefined) alarm.note = note;
+
+  return { alarm };
+}
+
+/**
+ * Validate a migrated persisted state. Passed to zustand `persist` via
+ * `merge`, so it runs on every hydrate. Alarms that fail validation, or
+ * repeat an earlier alarm's ID, are appended to the quarantine.
+ */
+export function sanitizePersistedState(persisted: unknown): PersistedState {
+  const state = isRecord(persisted) ? persisted : {};
+  const alarms: Alarm[] = [];
+  const quarantine: QuarantinedAlarm[] = Array.isArray(state.quarantine)
+    ? state.quarantine.filter(
+        (q): q is QuarantinedAlarm =>
+          isRecord(q) && typeof q.reason === 'string' && typeof q.quarantinedAt === 'number',
+      )
+    : [];
+
+  const seenIds = new Set<string>();
+  for (const raw of Array.isArray(state.alarms) ? state.alarms : []) {
+    const result = parseAlarm(raw);
+    if ('alarm' in result && !seenIds.has(result.alarm.id)) {
+      seenIds.add(result.alarm.id);
+      alarms.push(result.alarm);
+      continue;
+    }
+
+    const reason = 'reason' in result ? result.reason : `duplicate id ${result.alarm.id}`;
+    console.warn(`[AlarmStore] Quarantining persisted alarm: ${reason}`);
+    quarantine.push({ raw, reason, quarantinedAt: currentTime() });
+  }
+
+  return {
+    alarms,
+    history: Array.isArray(state.history)
+      ? state.history
+          .map(parseDismissalRecord)
+          .filter((r): r is DismissalRecord => r !== null)
+      : [],
+    session: parseFiringSession(state.session),
+    quarantine: quarantine.slice(-MAX_QUARANTINE_ENTRIES),
+    pausedUntil: parsePausedUntil(state.pausedUntil),
+  };
+}
@@ -0,0 +1,46 @@
+// ─── Timed Alarms ────────────────────────────────────────────────────
+// What the backends that hold alarms themselves — the web build's in-tab
+// timer and the simulated backend — keep per alarm, and how a weekly
+// alarm's next firing is worked out. Platform backends leave both to the
+// OS.
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type TimedSchedule =
+  | { kind: 'fixed'; timestamp: number }
+  | { kind: 'recurring'; hour: number; minute: number; weekdays: number[] };
+
+/** An alarm held by a backend that fires it itself */
+export interface TimedAlarm {
+  id: string;
+  schedule: TimedSchedule;
+  soundName: string;
+  title: string;
+  /** Next time this alarm will fire (epoch ms), or null if it never will */
+  nextFireAt: number | null;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Next time strictly after `after` that a weekly alarm fires.
+ * Weekdays use Apple's convention (1=Sun ... 7=Sat), matching AlarmKit.
+ */
+export function nextRecurringFire(
+  hour: number,
+  minute: number,
+  weekdays: number[],
+  after: number,
+): number | null {
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(after);
+    candidate.setDate(candidate.getDate() + offset);
+    candidate.setHours(hour, minute, 0, 0);
+
+    if (!weekdays.includes(candidate.getDay() + 1)) continue;
+    if (candidate.getTime() <= after) continue;
+
+    return candidate.getTime();
+  }
+  return null;
+}
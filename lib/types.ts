@@ -1,10 +1,29 @@
 // ─── Core Types for WAKE App ───────────────────────────────────────
 // Strict TypeScript types — no `any` types allowed.
 
+import type { CHALLENGE_REGISTRY } from '../components/challenges/registry';
+
 // ─── Challenge Types ─────────────────────────────────────────────────
 
-/** Discriminated union of available challenge modes */
-export type ChallengeType = 'rhythm' | 'math' | 'code';
+/** ID of a challenge registered in components/challenges/registry.ts */
+export type ChallengeType = (typeof CHALLENGE_REGISTRY)[number]['id'];
+
+/** One stage of a challenge chain: a specific challenge, or 'random' to pick from the allowed types */
+export type ChallengeStage = ChallengeType | 'random';
+
+/** Per-alarm challenge settings, chosen in the edit screen */
+export interface ChallengeConfig {
+  /** Challenge types to pick from when the alarm fires, or 'random' for any */
+  types: ChallengeType[] | 'random';
+  /** Stages that must all be completed, in order, before the alarm dismisses */
+  chain: ChallengeStage[];
+  /** 1 (easiest) – 5 (hardest) */
+  difficulty: number;
+  /** Correct answers / completed streaks needed to finish each stage */
+  rounds: number;
+  /** Per-challenge option values keyed by challenge ID, then option key */
+  options?: Partial<Record<ChallengeType, Record<string, number>>>;
+}
 
 // ─── Sound Types ─────────────────────────────────────────────────────
 
@@ -16,13 +35,111 @@ export type SoundKey = 'SIREN' | 'PULSE' | 'GLASS' | 'DRILL' | 'HORN';
 /** Seven-element boolean tuple representing enabled days Mon through Sun */
 export type EnabledDaysTuple = [boolean, boolean, boolean, boolean, boolean, boolean, boolean];
 
+/**
+ * How an alarm keeps ringing after each occurrence until it's dismissed.
+ * Re-triggers are independent one-shot native alarms, so they fire even if
+ * the app is killed.
+ */
+export interface RetriggerPolicy {
+  /** Re-triggers after each occurrence; 0 turns them off */
+  count: number;
+  /** Minutes from the occurrence to the first re-trigger */
+  intervalMinutes: number;
+  /** Each later gap is this many minutes shorter, down to one minute */
+  decreaseMinutes: number;
+  /** Switch to a louder sound from the `from`-th re-trigger (1-based) on */
+  escalation?: { from: number; sound: SoundKey };
+}
+
+/**
+ * A repeating cycle of days, for schedules a weekly mask can't express:
+ * every other week, 4 on / 4 off, a 3-week rotating shift.
+ */
+export interface RotationRecurrence {
+  /**
+   * How the rotation was built, so the editor reads it back the same way:
+   * whole weeks from a Monday, or a run of days on then off
+   */
+  kind: 'weeks' | 'on-off';
+  /** First day of a cycle as "YYYY-MM-DD"; the alarm doesn't ring before it */
+  anchor: string;
+  /** Whether the alarm rings on each day of the cycle, from the anchor on */
+  pattern: boolean[];
+}
+
 /** A single alarm entry */
 export interface Alarm {
   id: string;
   time: { hour: number; minute: number };
   enabledDays: boolean[];
+  /** One-shot date as "YYYY-MM-DD". When set, enabledDays is ignored */
+  date?: string;
+  /** Rotation the alarm repeats on. When set, enabledDays is ignored */
+  rotation?: RotationRecurrence;
+  /** Dates ("YYYY-MM-DD", ascending) a repeating alarm doesn't ring on */
+  skipDates?: string[];
   soundChoice: SoundKey;
+  challenge: ChallengeConfig;
+  retrigger: RetriggerPolicy;
   isArmed: boolean;
+  /** Short name shown on the lock-screen alert and the firing screen */
+  label?: string;
+  /** Longer motivational note shown while the alarm rings */
+  note?: string;
+}
+
+/** A persisted alarm that failed validation, kept rather than silently dropped */
+export interface QuarantinedAlarm {
+  /** The entry exactly as it was stored */
+  raw: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+/**
+ * Lifecycle of one alarm firing:
+ * idle → ringing (firing screen up) → in-challenge (chain resolved, timer
+ * running) → dismissed (victory screen) → idle
+ */
+export type FiringPhase = 'idle' | 'ringing' | 'in-challenge' | 'dismissed';
+
+/** The current firing session, persisted so a killed app can resume it */
+export interface FiringSession {
+  phase: FiringPhase;
+  /** Alarm that is firing, or null for a test alarm */
+  alarmId: string | null;
+  /** When ringing started (epoch ms) */
+  ringStartTime: number | null;
+  /** When the challenge chain started (epoch ms) */
+  challengeStartTime: number | null;
+  /** Resolved challenge chain, so a resumed session shows the same challenges */
+  challengeTypes: ChallengeType[];
+  /** Index into challengeTypes of the stage in progress */
+  stageIndex: number;
+  wrongAttempts: number;
+  /** Seconds spent on the challenges, set once dismissed */
+  elapsedSeconds: number | null;
+}
+
+/** One completed firing session, appended to the store's history on dismiss */
+export interface DismissalRecord {
+  /** Alarm that fired, or null for a test alarm */
+  alarmId: string | null;
+  /** Occurrence the alarm was due at (epoch ms), or null for a test alarm */
+  scheduledAt: number | null;
+  /** When the firing screen started ringing (epoch ms) */
+  firedAt: number;
+  /** When the last stage was completed or skipped (epoch ms) */
+  dismissedAt: number;
+  /** Seconds spent on the challenges */
+  elapsedSeconds: number;
+  /** Challenges presented, in chain order */
+  challengeTypes: ChallengeType[];
+  wrongAttempts: number;
+  /** Whether the session ended via hold-to-skip */
+  usedSkip: boolean;
+  /** Re-trigger alarms that rang before dismissal */
+  retriggersRung: number;
 }
 
 // ─── Math Challenge Types ────────────────────────────────────────────
@@ -78,4 +195,12 @@ export type OnChallengeComplete = () => void;
 /** Props shared by all challenge screen components */
 export interface ChallengeProps {
   onComplete: OnChallengeComplete;
+  /** 1 (easiest) – 5 (hardest) */
+  difficulty: number;
+  /** Rounds to complete before onComplete fires */
+  rounds: number;
+  /** Values for the challenge's config schema, defaults already applied */
+  options: Record<string, number>;
+  /** Called on every wrong answer or miss, for the dismissal history */
+  onWrongAttempt?: () => void;
 }
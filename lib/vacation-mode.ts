@@ -0,0 +1,25 @@
+// ─── Vacation Mode ───────────────────────────────────────────────────
+// Helpers for the store's global pause. While `pausedUntil` is set, no
+// alarm has native alarms scheduled, but each keeps its isArmed flag, so
+// ending the pause brings back exactly the alarms that were armed. The
+// date is the last paused day: the pause is over from the next day on, and
+// the first launch or foreground after that ends it.
+
+import { getCivilDate, parseISODate, toISODate } from './recurrence';
+import type { OccurrenceOptions } from './recurrence';
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** Whether the civil date at `options.from` is past the last paused day. */
+export function hasPauseEnded(pausedUntil: string, options: OccurrenceOptions): boolean {
+  // ISO dates sort chronologically as strings
+  return toISODate(getCivilDate(options.from, options.timeZone)) > pausedUntil;
+}
+
+/**
+ * Validate a persisted pause date, falling back to not paused for
+ * anything that isn't a "YYYY-MM-DD" date. Used when rehydrating the store.
+ */
+export function parsePausedUntil(raw: unknown): string | null {
+  return typeof raw === 'string' && parseISODate(raw) !== null ? raw : null;
+}
@@ -0,0 +1,131 @@
+// ─── Wake-up Statistics ──────────────────────────────────────────────
+// Pure aggregations over the dismissal history for the stats screen.
+// Test alarms are never counted — callers pass records from
+// queryHistory(), which leaves them out by default.
+
+import type { ChallengeType, DismissalRecord } from './types';
+import { getCivilDate, getDayIndex } from './recurrence';
+import { getLatenessSeconds } from './dismissal-history';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface StreakStats {
+  /** Consecutive most-recent dismissals without hold-to-skip */
+  current: number;
+  /** Longest such run in the history */
+  best: number;
+}
+
+export interface ChallengeStats {
+  type: ChallengeType;
+  /** Sessions that presented this challenge, skipped or not */
+  sessions: number;
+  /** Average / fastest seconds over sessions completed without skipping */
+  averageSeconds: number | null;
+  bestSeconds: number | null;
+}
+
+export interface SkipStats {
+  total: number;
+  skipped: number;
+  /** 0–1, or 0 when there are no sessions */
+  rate: number;
+}
+
+export interface WeekdayLateness {
+  /** 0=Mon ... 6=Sun, by the scheduled date */
+  dayIndex: number;
+  sessions: number;
+  /** Average seconds from scheduled time to dismissal, or null with no sessions */
+  averageSeconds: number | null;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** Streaks of dismissals completed without hold-to-skip. */
+export function getStreakStats(records: DismissalRecord[]): StreakStats {
+  const ordered = [...records].sort((a, b) => a.firedAt - b.firedAt);
+
+  let best = 0;
+  let run = 0;
+  for (const record of ordered) {
+    run = record.usedSkip ? 0 : run + 1;
+    best = Math.max(best, run);
+  }
+
+  return { current: run, best };
+}
+
+/**
+ * Dismissal times per challenge type. A session counts towards every
+ * distinct challenge in its chain, with the whole session's elapsed time.
+ * Types come out in order of first appearance; callers map IDs to labels
+ * through the challenge registry.
+ */
+export function getChallengeStats(records: DismissalRecord[]): ChallengeStats[] {
+  const byType = new Map<ChallengeType, { sessions: number; times: number[] }>();
+
+  for (const record of records) {
+    for (const type of new Set(record.challengeTypes)) {
+      let entry = byType.get(type);
+      if (!entry) {
+        entry = { sessions: 0, times: [] };
+        byType.set(type, entry);
+      }
+      entry.sessions++;
+      if (!record.usedSkip) entry.times.push(record.elapsedSeconds);
+    }
+  }
+
+  return [...byType].map(([type, { sessions, times }]) => ({
+    type,
+    sessions,
+    averageSeconds:
+      times.length > 0 ? Math.round(times.reduce((sum, t) => sum + t, 0) / times.length) : null,
+    bestSeconds: times.length > 0 ? Math.min(...times) : null,
+  }));
+}
+
+/** How often hold-to-skip ended the session. */
+export function getSkipStats(records: DismissalRecord[]): SkipStats {
+  const skipped = records.filter((r) => r.usedSkip).length;
+  return {
+    total: records.length,
+    skipped,
+    rate: records.length > 0 ? skipped / records.length : 0,
+  };
+}
+
+/**
+ * Average lateness — scheduled alarm time to dismissal — for each weekday
+ * (Mon first), bucketed by the scheduled date in `timeZone`.
+ */
+export function getWeekdayLateness(
+  records: DismissalRecord[],
+  timeZone?: string,
+): WeekdayLateness[] {
+  const totals = Array.from({ length: 7 }, () => ({ sessions: 0, seconds: 0 }));
+
+  for (const record of records) {
+    const lateness = getLatenessSeconds(record);
+    if (lateness === null || record.scheduledAt === null) continue;
+    const dayIndex = getDayIndex(getCivilDate(record.scheduledAt, timeZone));
+    totals[dayIndex].sessions++;
+    totals[dayIndex].seconds += lateness;
+  }
+
+  return totals.map(({ sessions, seconds }, dayIndex) => ({
+    dayIndex,
+    sessions,
+    averageSeconds: sessions > 0 ? Math.round(seconds / sessions) : null,
+  }));
+}
+
+/** Compact duration label, e.g. "45s", "3m 20s", "1h 5m" */
+export function formatDuration(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  if (s < 60) return `${s}s`;
+  const minutes = Math.floor(s / 60);
+  if (minutes < 60) return s % 60 > 0 ? `${minutes}m ${s % 60}s` : `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
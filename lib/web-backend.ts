@@ -0,0 +1,251 @@
+// ─── Web Alarm Backend ───────────────────────────────────────────────
+// AlarmBackend for the browser build, so challenges can be demoed and
+// QA'd from a laptop. Alarms are kept in AsyncStorage (localStorage on
+// web) and fired by an in-tab timer, so they only ring while a WAKE tab is
+// open. A firing alarm becomes the launch ID and launch listeners are
+// told, so _layout.tsx opens alarm-firing, which plays the sound through
+// soundManager. Where the Notifications API is allowed, a notification is
+// shown too, to bring the user back to a background tab.
+//
+// Browsers block audio until the page has been interacted with, and
+// throttle timers in background tabs to about once a minute.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AlarmBackend, AuthorizationStatus, ScheduleResult } from './alarm-backend';
+import { nextRecurringFire } from './timed-alarms';
+import type { TimedAlarm } from './timed-alarms';
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const WEB_ALARMS_STORAGE_KEY = 'wake-web-alarms';
+
+/** Longest delay setTimeout accepts; longer waits re-arm the timer */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/** Alarms missed while no tab was open still fire if they're this recent */
+const MISSED_GRACE_MS = 10 * 60 * 1000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function hasNotifications(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+/** Show a system notification for a firing alarm, if the user allowed them */
+function showNotification(alarm: TimedAlarm): void {
+  if (!hasNotifications() || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(alarm.title, {
+      body: 'Open WAKE to turn it off',
+      tag: alarm.id,
+      requireInteraction: true,
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (e) {
+    console.warn('[WebBackend] Failed to show notification:', e);
+  }
+}
+
+// ─── Backend ─────────────────────────────────────────────────────────
+
+export class WebAlarmBackend implements AlarmBackend {
+  private alarms = new Map<string, TimedAlarm>();
+  private launchAlarmId: string | null = null;
+  private readonly launchListeners = new Set<() => void>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.load();
+    // Background tabs may have slept through the timer
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.fireDueAlarms();
+      });
+    }
+  }
+
+  // ── AlarmBackend ───────────────────────────────────────────────────
+
+  // In-tab timers need no permission, so alarms can always be scheduled;
+  // notification permission is asked for along the way
+  async requestAuthorization(): Promise<AuthorizationStatus> {
+    if (hasNotifications() && Notification.permission === 'default') {
+      try {
+        await Notification.requestPermission();
+      } catch (e) {
+        console.warn('[WebBackend] Notification permission request failed:', e);
+      }
+    }
+    return 'authorized';
+  }
+
+  getAuthorizationStatus(): AuthorizationStatus {
+    return 'authorized';
+  }
+
+  async scheduleFixedAlarm(
+    id: string,
+    timestamp: number,
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult> {
+    if (timestamp <= Date.now()) {
+      return { status: 'invalid', message: 'The alarm time has passed.' };
+    }
+    await this.loaded;
+    this.alarms.set(id, {
+      id,
+      schedule: { kind: 'fixed', timestamp },
+      soundName,
+      title,
+      nextFireAt: timestamp,
+    });
+    return this.commit();
+  }
+
+  async scheduleRecurringAlarm(
+    id: string,
+    hour: number,
+    minute: number,
+    weekdays: number[],
+    soundName: string,
+    title: string,
+  ): Promise<ScheduleResult> {
+    if (weekdays.length === 0) {
+      return { status: 'invalid', message: 'No weekdays given.' };
+    }
+    await this.loaded;
+    this.alarms.set(id, {
+      id,
+      schedule: { kind: 'recurring', hour, minute, weekdays: [...weekdays] },
+      soundName,
+      title,
+      nextFireAt: nextRecurringFire(hour, minute, weekdays, Date.now()),
+    });
+    return this.commit();
+  }
+
+  async cancelAlarm(id: string): Promise<boolean> {
+    await this.loaded;
+    const existed = this.alarms.delete(id);
+    if (existed) await this.commit();
+    return existed;
+  }
+
+  async cancelAllAlarms(): Promise<boolean> {
+    await this.loaded;
+    this.alarms.clear();
+    const result = await this.commit();
+    return result.status === 'scheduled';
+  }
+
+  async listScheduledAlarms(): Promise<string[]> {
+    await this.loaded;
+    return Array.from(this.alarms.keys());
+  }
+
+  getLaunchAlarmId(): string | null {
+    const id = this.launchAlarmId;
+    this.launchAlarmId = null;
+    return id;
+  }
+
+  addLaunchListener(listener: () => void): () => void {
+    this.launchListeners.add(listener);
+    return () => {
+      this.launchListeners.delete(listener);
+    };
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  /**
+   * Restore stored alarms. Fixed alarms missed while no tab was open are
+   * fired if recent and dropped otherwise; recurring alarms roll forward.
+   */
+  private async load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(WEB_ALARMS_STORAGE_KEY);
+      if (raw) {
+        const entries: TimedAlarm[] = JSON.parse(raw);
+        const current = Date.now();
+        for (const alarm of entries) {
+          const missed = alarm.nextFireAt !== null && alarm.nextFireAt <= current - MISSED_GRACE_MS;
+          if (missed && alarm.schedule.kind === 'fixed') continue;
+          if (missed && alarm.schedule.kind === 'recurring') {
+            const { hour, minute, weekdays } = alarm.schedule;
+            alarm.nextFireAt = nextRecurringFire(hour, minute, weekdays, current);
+          }
+          this.alarms.set(alarm.id, alarm);
+        }
+      }
+    } catch (e) {
+      console.warn('[WebBackend] Failed to load alarms:', e);
+    }
+    this.fireDueAlarms();
+  }
+
+  /** Persist the alarms and re-arm the timer. */
+  private async commit(): Promise<ScheduleResult> {
+    this.armTimer();
+    try {
+      await AsyncStorage.setItem(
+        WEB_ALARMS_STORAGE_KEY,
+        JSON.stringify(Array.from(this.alarms.values())),
+      );
+      return { status: 'scheduled' };
+    } catch (e) {
+      console.warn('[WebBackend] Failed to save alarms:', e);
+      return { status: 'native-error', message: e instanceof Error ? e.message : String(e) };
+    }
+  }
+
+  /** Point the timer at the soonest alarm. */
+  private armTimer(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+
+    let next = Infinity;
+    for (const alarm of this.alarms.values()) {
+      if (alarm.nextFireAt !== null && alarm.nextFireAt < next) next = alarm.nextFireAt;
+    }
+    if (next === Infinity) return;
+
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => this.fireDueAlarms(), delay);
+  }
+
+  /**
+   * Fire every alarm that has come due: fixed alarms are removed, recurring
+   * alarms roll to their next occurrence. The latest becomes the launch ID.
+   */
+  private fireDueAlarms(): void {
+    const current = Date.now();
+    let latest: TimedAlarm | null = null;
+
+    for (const alarm of this.alarms.values()) {
+      if (alarm.nextFireAt === null || alarm.nextFireAt > current) continue;
+      if (!latest || alarm.nextFireAt >= (latest.nextFireAt as number)) latest = { ...alarm };
+
+      if (alarm.schedule.kind === 'fixed') {
+        this.alarms.delete(alarm.id);
+      } else {
+        const { hour, minute, weekdays } = alarm.schedule;
+        alarm.nextFireAt = nextRecurringFire(hour, minute, weekdays, current);
+      }
+    }
+
+    if (!latest) {
+      this.armTimer();
+      return;
+    }
+    this.commit();
+    showNotification(latest);
+    this.launchAlarmId = latest.id;
+    for (const listener of this.launchListeners) listener();
+  }
+}
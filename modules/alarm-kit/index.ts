@@ -1,5 +1,6 @@
 /** Re-exports from the AlarmKit Expo native module wrapper */
 export {
+  isAlarmKitAvailable,
   requestAuthorization,
   getAuthorizationStatus,
   getSystemVolume,
@@ -7,6 +8,7 @@ export {
   scheduleRecurringAlarm,
   cancelAlarm,
   cancelAllAlarms,
+  listScheduledAlarms,
   getLaunchAlarmId,
 } from './src';
-export type { AuthorizationStatus } from './src';
+export type { AuthorizationStatus, ScheduleResult } from './src';
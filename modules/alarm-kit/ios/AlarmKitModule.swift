@@ -92,6 +92,23 @@ private func makeAttributes(title: String, alarmId: String) -> AlarmAttributes<W
   )
 }
 
+// MARK: - Schedule results
+
+/// Outcome of a schedule call, decoded by ScheduleResult in src/index.ts:
+/// "scheduled", "permission-denied", "invalid" or "native-error" (with a message)
+private func scheduleResult(_ status: String, _ message: String? = nil) -> [String: String] {
+  var result = ["status": status]
+  if let message = message {
+    result["message"] = message
+  }
+  return result
+}
+
+@available(iOS 26.0, *)
+private var isAuthorized: Bool {
+  AlarmManager.shared.authorizationState == .authorized
+}
+
 // MARK: - Expo Module
 
 public class AlarmKitModule: Module {
@@ -101,6 +118,14 @@ public class AlarmKitModule: Module {
   public func definition() -> ModuleDefinition {
     Name("AlarmKit")
 
+    // Whether this OS has AlarmKit; JS falls back to notifications if not
+    Function("isAvailable") { () -> Bool in
+      if #available(iOS 26.0, *) {
+        return true
+      }
+      return false
+    }
+
     // Request user authorization for alarms
     AsyncFunction("requestAuthorization") { () -> String in
       guard #available(iOS 26.0, *) else { return "denied" }
@@ -129,9 +154,10 @@ public class AlarmKitModule: Module {
     }
 
     // Schedule a fixed-time alarm (one-shot, specific date)
-    AsyncFunction("scheduleFixedAlarm") { (id: String, timestamp: Double, soundName: String, title: String) -> Bool in
-      guard #available(iOS 26.0, *) else { return false }
-      guard let uuid = UUID(uuidString: id) else { return false }
+    AsyncFunction("scheduleFixedAlarm") { (id: String, timestamp: Double, soundName: String, title: String) -> [String: String] in
+      guard #available(iOS 26.0, *) else { return scheduleResult("native-error", "AlarmKit requires iOS 26.") }
+      guard let uuid = UUID(uuidString: id) else { return scheduleResult("invalid", "Alarm ID is not a UUID.") }
+      guard isAuthorized else { return scheduleResult("permission-denied") }
 
       let date = Date(timeIntervalSince1970: timestamp / 1000.0)
       let schedule = Alarm.Schedule.fixed(date)
@@ -150,17 +176,18 @@ public class AlarmKitModule: Module {
       do {
         try await AlarmManager.shared.schedule(id: uuid, configuration: config)
         self.scheduledAlarmIds.insert(uuid)
-        return true
+        return scheduleResult("scheduled")
       } catch {
         print("[AlarmKit] Schedule error: \(error)")
-        return false
+        return scheduleResult("native-error", error.localizedDescription)
       }
     }
 
     // Schedule a recurring weekly alarm
-    AsyncFunction("scheduleRecurringAlarm") { (id: String, hour: Int, minute: Int, weekdays: [Int], soundName: String, title: String) -> Bool in
-      guard #available(iOS 26.0, *) else { return false }
-      guard let uuid = UUID(uuidString: id) else { return false }
+    AsyncFunction("scheduleRecurringAlarm") { (id: String, hour: Int, minute: Int, weekdays: [Int], soundName: String, title: String) -> [String: String] in
+      guard #available(iOS 26.0, *) else { return scheduleResult("native-error", "AlarmKit requires iOS 26.") }
+      guard let uuid = UUID(uuidString: id) else { return scheduleResult("invalid", "Alarm ID is not a UUID.") }
+      guard isAuthorized else { return scheduleResult("permission-denied") }
 
       let time = Alarm.Schedule.Relative.Time(hour: hour, minute: minute)
 
@@ -177,6 +204,7 @@ public class AlarmKitModule: Module {
         default: return nil
         }
       }
+      guard !days.isEmpty else { return scheduleResult("invalid", "No valid weekdays.") }
 
       let recurrence = Alarm.Schedule.Relative.Recurrence.weekly(days)
       let relative = Alarm.Schedule.Relative(time: time, repeats: recurrence)
@@ -197,10 +225,10 @@ public class AlarmKitModule: Module {
       do {
         try await AlarmManager.shared.schedule(id: uuid, configuration: config)
         self.scheduledAlarmIds.insert(uuid)
-        return true
+        return scheduleResult("scheduled")
       } catch {
         print("[AlarmKit] Schedule recurring error: \(error)")
-        return false
+        return scheduleResult("native-error", error.localizedDescription)
       }
     }
 
@@ -234,6 +262,19 @@ public class AlarmKitModule: Module {
       return allSuccess
     }
 
+    // List the UUIDs of every alarm AlarmKit holds for this app, including
+    // ones scheduled by earlier launches. Empty only without AlarmKit; a
+    // failed read rejects, so JS doesn't take it for "nothing scheduled"
+    AsyncFunction("listScheduledAlarms") { () throws -> [String] in
+      guard #available(iOS 26.0, *) else { return [] }
+      do {
+        return try AlarmManager.shared.alarms.map { $0.id.uuidString }
+      } catch {
+        print("[AlarmKit] List error: \(error)")
+        throw error
+      }
+    }
+
     // Reads the hardware output volume (0.0–1.0) via AVAudioSession so
     // the RN layer can warn users when volume is too low to hear the alarm
     Function("getSystemVolume") { () -> Float in
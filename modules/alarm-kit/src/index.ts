@@ -1,6 +1,7 @@
 import { requireNativeModule, Platform } from 'expo-modules-core';
 
 interface AlarmKitNativeModule {
+  isAvailable(): boolean;
   requestAuthorization(): Promise<string>;
   getAuthorizationStatus(): string;
   getSystemVolume(): number;
@@ -9,7 +10,7 @@ interface AlarmKitNativeModule {
     timestamp: number,
     soundName: string,
     title: string,
-  ): Promise<boolean>;
+  ): Promise<NativeScheduleResult>;
   scheduleRecurringAlarm(
     id: string,
     hour: number,
@@ -17,17 +18,59 @@ interface AlarmKitNativeModule {
     weekdays: number[],
     soundName: string,
     title: string,
-  ): Promise<boolean>;
+  ): Promise<NativeScheduleResult>;
   cancelAlarm(id: string): Promise<boolean>;
   cancelAllAlarms(): Promise<boolean>;
+  listScheduledAlarms(): Promise<string[]>;
   getLaunchAlarmId(): string | null;
 }
 
+/** Schedule outcome as the native module reports it */
+interface NativeScheduleResult {
+  status: string;
+  message?: string;
+}
+
 const NativeModule: AlarmKitNativeModule | null =
   Platform.OS === 'ios' ? requireNativeModule('AlarmKit') : null;
 
 export type AuthorizationStatus = 'authorized' | 'denied' | 'notDetermined';
 
+/**
+ * Outcome of scheduling one native alarm. `invalid` means the request
+ * itself can't be scheduled (bad ID, no weekdays); `native-error` is a
+ * failure reported by AlarmKit or an unsupported platform.
+ */
+export type ScheduleResult =
+  | { status: 'scheduled' }
+  | { status: 'permission-denied' }
+  | { status: 'invalid'; message: string }
+  | { status: 'native-error'; message: string };
+
+const UNAVAILABLE: ScheduleResult = {
+  status: 'native-error',
+  message: 'AlarmKit is only available on iOS.',
+};
+
+function toScheduleResult(raw: NativeScheduleResult): ScheduleResult {
+  switch (raw.status) {
+    case 'scheduled':
+      return { status: 'scheduled' };
+    case 'permission-denied':
+      return { status: 'permission-denied' };
+    case 'invalid':
+      return { status: 'invalid', message: raw.message ?? 'Invalid alarm.' };
+    default:
+      return { status: 'native-error', message: raw.message ?? 'Unknown AlarmKit error.' };
+  }
+}
+
+/** Whether AlarmKit can be used here (iOS 26 and later) */
+export function isAlarmKitAvailable(): boolean {
+  if (!NativeModule) return false;
+  return NativeModule.isAvailable();
+}
+
 export async function requestAuthorization(): Promise<AuthorizationStatus> {
   if (!NativeModule) return 'denied';
   const result = await NativeModule.requestAuthorization();
@@ -50,9 +93,9 @@ export async function scheduleFixedAlarm(
   timestamp: number,
   soundName: string,
   title: string = 'WAKE UP',
-): Promise<boolean> {
-  if (!NativeModule) return false;
-  return NativeModule.scheduleFixedAlarm(id, timestamp, soundName, title);
+): Promise<ScheduleResult> {
+  if (!NativeModule) return UNAVAILABLE;
+  return toScheduleResult(await NativeModule.scheduleFixedAlarm(id, timestamp, soundName, title));
 }
 
 export async function scheduleRecurringAlarm(
@@ -62,9 +105,11 @@ export async function scheduleRecurringAlarm(
   weekdays: number[],
   soundName: string,
   title: string = 'WAKE UP',
-): Promise<boolean> {
-  if (!NativeModule) return false;
-  return NativeModule.scheduleRecurringAlarm(id, hour, minute, weekdays, soundName, title);
+): Promise<ScheduleResult> {
+  if (!NativeModule) return UNAVAILABLE;
+  return toScheduleResult(
+    await NativeModule.scheduleRecurringAlarm(id, hour, minute, weekdays, soundName, title),
+  );
 }
 
 export async function cancelAlarm(id: string): Promise<boolean> {
@@ -77,6 +122,15 @@ export async function cancelAllAlarms(): Promise<boolean> {
   return NativeModule.cancelAllAlarms();
 }
 
+/**
+ * UUIDs of every alarm AlarmKit has scheduled for the app (uppercase).
+ * Empty without AlarmKit; rejects if the list can't be read.
+ */
+export async function listScheduledAlarms(): Promise<string[]> {
+  if (!NativeModule) return [];
+  return NativeModule.listScheduledAlarms();
+}
+
 export function getLaunchAlarmId(): string | null {
   if (!NativeModule) return null;
   return NativeModule.getLaunchAlarmId();